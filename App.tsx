@@ -1,8 +1,58 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { VideoQuality, ConnectionState } from './types';
-import { VideoIcon, VideoSlashIcon, PhoneIcon, PhoneXMarkIcon, SettingsIcon, SparklesIcon, PipIcon, LockClosedIcon, ArrowRightIcon, ArrowRightOnRectangleIcon, UserIcon, XMarkIcon, ScreenShareIcon, StopScreenShareIcon, Bars3Icon, PaletteIcon, CogIcon } from './components/Icons';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { ActivityEnd, ActivityStart, FunctionCall, LiveServerMessage, Modality } from '@google/genai';
+import { VideoQuality, ConnectionState, TranscriptTurn, SessionRecord, MissionNote, ActiveTimer, ToolInvocation, PersonaPreset, FrameUploadSettings, VisualizerStyle, CallRecording, MediaDeviceSelection, MicMode, FilterPreset, FilterAdjustments, ShaderEffect, VideoFilter, ScreenShareLayout, ThemeDefinition, UiLanguage, OperatorProfile, SessionSnapshot, SnapshotMark, SnapshotRegion } from './types';
+import { VideoIcon, VideoSlashIcon, PhoneIcon, PhoneXMarkIcon, SettingsIcon, SparklesIcon, PipIcon, LockClosedIcon, ArrowRightIcon, ArrowRightOnRectangleIcon, UserIcon, XMarkIcon, ScreenShareIcon, StopScreenShareIcon, Bars3Icon, PaletteIcon, CogIcon, ClockIcon, DocumentTextIcon, RecordIcon, FilmIcon, CameraIcon, MicrophoneIcon, MicrophoneSlashIcon } from './components/Icons';
+import { THEMES, VISUALIZER_STYLES } from './constants';
 import { Visualizer } from './components/Visualizer';
+import { TranscriptPanel } from './components/TranscriptPanel';
+import { SessionHistory } from './components/SessionHistory';
+import { ToolActivity } from './components/ToolActivity';
+import { MissionNotes } from './components/MissionNotes';
+import { CommandLine } from './components/CommandLine';
+import { PersonaSettings } from './components/PersonaSettings';
+import { FrameUploadControls } from './components/FrameUploadControls';
+import { RecordingList } from './components/RecordingList';
+import { DeviceSettings } from './components/DeviceSettings';
+import { FilterEditor } from './components/FilterEditor';
+import { ScreenShareSettings } from './components/ScreenShareSettings';
+import { ThemeEditor } from './components/ThemeEditor';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
+import { SettingsTransfer } from './components/SettingsTransfer';
+import { CommandPalette, PaletteCommand } from './components/CommandPalette';
+import { HOTKEY_LABELS, KeymapSettings } from './components/KeymapSettings';
+import { Toggle } from './components/Toggle';
+import { SnapshotEditor } from './components/SnapshotEditor';
+import { SnapshotGallery } from './components/SnapshotGallery';
+import { appendTranscriptChunk, appendTypedTurn, finalizeTurns } from './services/transcript';
+import { createSessionId, deleteRecording, deleteSession, listRecordings, listSessions, saveRecording, saveSession } from './services/sessionHistory';
+import { applySpeaker, clearDevices, DEFAULT_DEVICE_SELECTION, defaultDeviceSignature, findMissingDevices, listMediaDevices, MediaDeviceLists, supportsSpeakerSelection } from './services/mediaDevices';
+import { CallRecorderHandle, downloadRecording, isRecordingSupported, startCallRecording } from './services/callRecorder';
+import { exportSession, ExportFormat } from './services/transcriptExport';
+import { LiveSession } from './services/liveTransport';
+import { createLiveTransport } from './services/transports';
+import { LiveTokenError } from './services/liveTokens';
+import { AuthError, AuthSession, OtpChallenge } from './services/authProvider';
+import { createAuthProvider } from './services/authProviders';
+import { clearAuthSession, loadAuthSession, REFRESH_LEAD_MS, saveAuthSession } from './services/authSession';
+import { deactivateProfile, forgetProfile, loadProfiles, rememberProfile, renameProfile } from './services/profiles';
+import { DeviceSection, exportSettings, getDeviceSettings, getProfileSettings, importSettings, ProfileSection, setDeviceSetting, setProfileSetting, SettingsImportError, subscribeSettings, ThemePrefs } from './services/settingsStore';
+import { actionForCombo, comboFromEvent, DEFAULT_KEYMAP, HOTKEY_ACTIONS, HotkeyAction, Keymap } from './services/hotkeys';
+import { useFocusTrap, usePrefersReducedMotion } from './services/accessibility';
+import { createToolRegistry } from './services/tools';
+import { createBuiltinTools } from './services/builtinTools';
+import { measureLevel } from './services/audioLevels';
+import { createVoiceGate, VoiceGate } from './services/voiceActivity';
+import { DEFAULT_JITTER_BUFFER_MS, JITTER_BUFFER_OPTIONS_MS, PlaybackEngine } from './services/playbackEngine';
+import { createFrameSampler, DEFAULT_FRAME_SETTINGS, FrameSamplerStats, FrameSource } from './services/frameSampler';
+import { freezeFrame, renderSnapshot, snapshotPrompt } from './services/snapshot';
+import { BUILTIN_FILTERS, NO_FILTER, presetToFilter } from './services/filterPresets';
+import { createShaderRenderer, ShaderRenderer } from './services/shaderFilters';
+import { applyTheme, DEFAULT_THEME, exportThemes, parseThemeImport, ThemeImportError } from './services/themes';
+import { createScreenCompositor, DEFAULT_SCREEN_LAYOUT, dragInset, hitTestInset, Rect, ScreenCompositor } from './services/screenComposite';
+import { createTranslator, I18nContext, replyLanguageInstruction, UI_LANGUAGES } from './services/i18n';
+import { MessageKey } from './locales/en';
+import { BUILTIN_PERSONAS, DEFAULT_PERSONA, renderPersonaInstruction } from './services/personas';
+import { startAudioCapture, AudioCaptureHandle, CAPTURE_CHUNK_SIZES, CAPTURE_SAMPLE_RATE, DEFAULT_CAPTURE_CHUNK_SIZE } from './services/audioCapture';
 
 // Audio decoding helper
 function decode(base64: string) {
@@ -15,49 +65,6 @@ function decode(base64: string) {
   return bytes;
 }
 
-// Audio decoding helper
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
-// PCM Encoder
-function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-// Blob creator for PCM
-function createBlob(data: Float32Array): any {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
-}
-
 // Convert blob to base64
 function blobToBase64(blob: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -74,23 +81,69 @@ function blobToBase64(blob: Blob): Promise<string> {
   });
 }
 
-// --- Filters Definition ---
-const FILTERS = [
-  { name: 'NORMAL', value: 'none', class: '' },
-  { name: 'MATRIX', value: 'hue-rotate(90deg) contrast(1.2) brightness(0.9)', class: 'hue-rotate-90' },
-  { name: 'B&W', value: 'grayscale(1) contrast(1.2)', class: 'grayscale' },
-  { name: 'NIGHT', value: 'sepia(1) hue-rotate(100deg) saturate(3)', class: 'sepia hue-rotate-90' }, // Night vision style
-  { name: 'TERMINAL', value: 'contrast(1.5) saturate(0)', class: 'contrast-150' },
-  { name: 'INVERT', value: 'invert(1)', class: 'invert' },
+// --- Reconnect Policy ---
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+const RECONNECT_MAX_ATTEMPTS = 6;
+
+// --- Talking Detection ---
+const TALKING_LEVEL_THRESHOLD = 0.02;
+const TALKING_HOLD_MS = 250;
+
+// --- Mic Modes ---
+const MIC_MODES: { value: MicMode; labelKey: MessageKey }[] = [
+  { value: 'always', labelKey: 'settings.micAlways' },
+  { value: 'ptt', labelKey: 'settings.micPtt' },
+  { value: 'vad', labelKey: 'settings.micVad' },
+];
+const PTT_KEY = ' ';
+
+// Spoken on every change (and shown on the call button's label), so state isn't color-only
+const CONNECTION_LABELS: Record<ConnectionState, MessageKey> = {
+  [ConnectionState.DISCONNECTED]: 'a11y.disconnected',
+  [ConnectionState.CONNECTING]: 'a11y.connecting',
+  [ConnectionState.CONNECTED]: 'a11y.connected',
+  [ConnectionState.RECONNECTING]: 'a11y.reconnecting',
+  [ConnectionState.ERROR]: 'a11y.error',
+};
+
+const QUALITY_OPTIONS: { value: VideoQuality; labelKey: MessageKey }[] = [
+  { value: VideoQuality.SD, labelKey: 'settings.qualitySd' },
+  { value: VideoQuality.HD, labelKey: 'settings.qualityHd' },
+  { value: VideoQuality.UHD, labelKey: 'settings.qualityUhd' },
 ];
 
-// --- Theme Definition ---
-const THEMES = [
-  { name: 'Hacker Green', color: '#00ff41', glow: 'rgba(0, 255, 65, 0.7)', dim: 'rgba(0, 255, 65, 0.1)' },
-  { name: 'Cyber Blue', color: '#00e5ff', glow: 'rgba(0, 229, 255, 0.7)', dim: 'rgba(0, 229, 255, 0.1)' },
-  { name: 'Crimson Red', color: '#ff003c', glow: 'rgba(255, 0, 60, 0.7)', dim: 'rgba(255, 0, 60, 0.1)' },
-  { name: 'Neon Purple', color: '#d000ff', glow: 'rgba(208, 0, 255, 0.7)', dim: 'rgba(208, 0, 255, 0.1)' },
-  { name: 'Amber Orange', color: '#ffae00', glow: 'rgba(255, 174, 0, 0.7)', dim: 'rgba(255, 174, 0, 0.1)' },
+// Don't hijack keys while the operator is typing
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// --- Tool Feed ---
+const MAX_TOOL_LOG = 20;
+
+const createLocalId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// --- Live Backend ---
+const liveTransport = createLiveTransport();
+
+// --- Auth Backend ---
+const authProvider = createAuthProvider();
+const AUTH_RETRY_DELAY_MS = 30000;
+
+// Refresh tokens are single-use, so callers holding the same one (StrictMode runs the mount
+// effect twice) share one exchange instead of racing each other into a 401
+const pendingRefreshes = new Map<string, Promise<AuthSession>>();
+const refreshSession = (refreshToken: string): Promise<AuthSession> => {
+  const pending = pendingRefreshes.get(refreshToken)
+    ?? authProvider.refresh(refreshToken).finally(() => pendingRefreshes.delete(refreshToken));
+  pendingRefreshes.set(refreshToken, pending);
+  return pending;
+};
+
+const authErrorCode = (err: unknown) => (err instanceof AuthError ? err.code : 'AUTH_FAILED');
+
+const COUNTRY_CODES = [
+  { code: '+880', label: 'BD +880' },
+  { code: '+91', label: 'IN +91' },
 ];
 
 const App: React.FC = () => {
@@ -101,90 +154,345 @@ const App: React.FC = () => {
   const [phoneNumber, setPhoneNumber] = useState('');
   const [otpInput, setOtpInput] = useState('');
   const [isAuthLoading, setIsAuthLoading] = useState(false);
+  const [authSession, setAuthSession] = useState<AuthSession | null>(null);
+  const [otpChallenge, setOtpChallenge] = useState<OtpChallenge | null>(null);
+  const [resendCountdown, setResendCountdown] = useState(0);
+  const [refreshRetry, setRefreshRetry] = useState(0);
   
   // --- User Profile State ---
   const [userName, setUserName] = useState('');
   const [storedPhone, setStoredPhone] = useState('');
+  const [profiles, setProfiles] = useState<OperatorProfile[]>([]);
+  const [loadedPhone, setLoadedPhone] = useState<string | null>(null); // whose settings the state holds; '' = device only, null = not read yet
 
   // --- App State ---
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [videoQuality, setVideoQuality] = useState<VideoQuality>(VideoQuality.HD);
   const [isVideoEnabled, setIsVideoEnabled] = useState(true);
   const [isAiTalking, setIsAiTalking] = useState(false);
+  const [micAnalyser, setMicAnalyser] = useState<AnalyserNode | null>(null);
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [reconnectCountdown, setReconnectCountdown] = useState<number | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [transcript, setTranscript] = useState<TranscriptTurn[]>([]);
+
+  // Session History State
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [reviewedSession, setReviewedSession] = useState<SessionRecord | null>(null);
+  const [recordings, setRecordings] = useState<CallRecording[]>([]);
+  const [deviceLists, setDeviceLists] = useState<MediaDeviceLists>({ cameras: [], mics: [], speakers: [] });
+  const [deviceSelection, setDeviceSelection] = useState<MediaDeviceSelection>(DEFAULT_DEVICE_SELECTION);
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+
+  // Persona State
+  const [customPersonas, setCustomPersonas] = useState<PersonaPreset[]>([]);
+  const [persona, setPersona] = useState<PersonaPreset>(DEFAULT_PERSONA);
+
+  // Tool State
+  const [missionNotes, setMissionNotes] = useState<MissionNote[]>([]);
+  const [activeTimers, setActiveTimers] = useState<ActiveTimer[]>([]);
+  const [toolLog, setToolLog] = useState<ToolInvocation[]>([]);
+
+  // Snapshot State
+  const [snapshotFrame, setSnapshotFrame] = useState<HTMLCanvasElement | null>(null); // frozen, being annotated
+  const [snapshots, setSnapshots] = useState<SessionSnapshot[]>([]);
+  const snapshotsRef = useRef<SessionSnapshot[]>([]);
   
   // Screen Share State
   const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [screenLayout, setScreenLayout] = useState<ScreenShareLayout>(DEFAULT_SCREEN_LAYOUT);
   
   // Filter State
-  const [activeFilter, setActiveFilter] = useState<string>('none');
+  const [activeFilter, setActiveFilter] = useState<VideoFilter>(NO_FILTER);
   const [showFilters, setShowFilters] = useState(false);
+  const [customFilters, setCustomFilters] = useState<FilterPreset[]>([]);
 
   // --- Sidebar & Customization State ---
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-  const [themeIndex, setThemeIndex] = useState(0);
+  const [themeId, setThemeId] = useState(DEFAULT_THEME.id);
+  const [customThemes, setCustomThemes] = useState<ThemeDefinition[]>([]);
+  const [previewTheme, setPreviewTheme] = useState<ThemeDefinition | null>(null); // unsaved edits
   const [showGrid, setShowGrid] = useState(true);
   const [showScanlines, setShowScanlines] = useState(true);
+  const [visualizerStyle, setVisualizerStyle] = useState<VisualizerStyle>('ring');
+  const [keymap, setKeymap] = useState<Keymap>(DEFAULT_KEYMAP);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [highContrast, setHighContrast] = useState(false);
+  const [forceReducedMotion, setForceReducedMotion] = useState(false); // on top of the OS setting
+  const [language, setLanguage] = useState<UiLanguage>('en');
+  const [replyInLanguage, setReplyInLanguage] = useState(false); // Rinu answers in the UI language
+  const [captureChunkSize, setCaptureChunkSize] = useState(DEFAULT_CAPTURE_CHUNK_SIZE);
+  const [micMode, setMicMode] = useState<MicMode>('always');
+  const [isMuted, setIsMuted] = useState(false);
+  const [isVoiceActive, setIsVoiceActive] = useState(false); // PTT held / VAD open
+  const [playbackVolume, setPlaybackVolume] = useState(1);
+  const [jitterBufferMs, setJitterBufferMs] = useState(DEFAULT_JITTER_BUFFER_MS);
+  const [duckOnSpeech, setDuckOnSpeech] = useState(true);
+  const [isMicSpeaking, setIsMicSpeaking] = useState(false); // always-on mode level detector
+  const [playbackUnderruns, setPlaybackUnderruns] = useState(0);
+  const [frameSettings, setFrameSettings] = useState<FrameUploadSettings>(DEFAULT_FRAME_SETTINGS);
+  const [uplinkStats, setUplinkStats] = useState<FrameSamplerStats | null>(null);
 
   // --- Refs ---
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
   // Audio Contexts & Processing
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
-  const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const audioCaptureRef = useRef<AudioCaptureHandle | null>(null);
+  const playbackRef = useRef<PlaybackEngine | null>(null); // owns the output AudioContext
   
   // Streams
   const streamRef = useRef<MediaStream | null>(null); // Camera + Mic Stream
   const screenStreamRef = useRef<MediaStream | null>(null); // Screen Share Stream
 
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-
-  // Gemini API
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  // Live Uplink
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+  const callActiveRef = useRef(false); // Call in progress, spans reconnects
+  const linkUpRef = useRef(false); // Socket open and accepting input
+  const resumeHandleRef = useRef<string | undefined>(undefined);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
   const frameIntervalRef = useRef<number | null>(null);
-  const activeFilterRef = useRef<string>('none');
+  const activeFilterRef = useRef<VideoFilter>(NO_FILTER);
+  const shaderCanvasRef = useRef<HTMLCanvasElement>(null); // shader output, shown in place of the video
+  const shaderRendererRef = useRef<ShaderRenderer | null>(null);
+  const cameraVideoRef = useRef<HTMLVideoElement>(null); // camera while the main video shows a screen share
+  const compositeCanvasRef = useRef<HTMLCanvasElement>(null); // screen + camera inset, shown in place of the video
+  const compositorRef = useRef<ScreenCompositor | null>(null);
+  const screenLayoutRef = useRef<ScreenShareLayout>(DEFAULT_SCREEN_LAYOUT);
+  const insetDragRef = useRef<{ action: 'move' | 'resize'; start: Rect; origin: { x: number; y: number } } | null>(null);
+  const themeColorRef = useRef(DEFAULT_THEME.color);
+  const isScreenSharingRef = useRef(false);
+  const recorderRef = useRef<CallRecorderHandle | null>(null);
+
+  // Devices
+  const deviceSelectionRef = useRef<MediaDeviceSelection>(DEFAULT_DEVICE_SELECTION);
+  const activeInputsRef = useRef({ cameraId: '', micId: '' }); // what the current stream was opened with
+  const defaultSignaturesRef = useRef({ camera: '', mic: '' });
+
+  // Mic gating
+  const micModeRef = useRef<MicMode>('always'); // mode of the running call
+  const isMutedRef = useRef(false);
+  const pttActiveRef = useRef(false);
+  const voiceGateRef = useRef<VoiceGate | null>(null);
+
+  // Session History
+  const sessionRecordRef = useRef<SessionRecord | null>(null);
+  const transcriptRef = useRef<TranscriptTurn[]>([]);
+
+  // Tools
+  const isVideoEnabledRef = useRef(true);
+  const missionNotesRef = useRef<MissionNote[]>([]);
+  const timerTimeoutsRef = useRef<Map<string, number>>(new Map());
+  const cancelledToolCallsRef = useRef<Set<string>>(new Set());
 
   // --- Theme Effect ---
+  const allThemes = [...THEMES, ...customThemes];
+  const activeTheme = allThemes.find(t => t.id === themeId) ?? DEFAULT_THEME;
+  const displayedTheme = previewTheme ?? activeTheme;
   useEffect(() => {
-    const theme = THEMES[themeIndex];
-    document.documentElement.style.setProperty('--theme-color', theme.color);
-    document.documentElement.style.setProperty('--theme-color-glow', theme.glow);
-    document.documentElement.style.setProperty('--theme-color-dim', theme.dim);
-  }, [themeIndex]);
+    themeColorRef.current = displayedTheme.color;
+    applyTheme(displayedTheme);
+  }, [displayedTheme]);
+
+  // --- Settings ---
+  // Everything comes from the settings store, already validated; these only copy it into state
+  const applyThemePrefs = (prefs: ThemePrefs) => {
+    setThemeId(prefs.themeId);
+    setShowGrid(prefs.showGrid);
+    setShowScanlines(prefs.showScanlines);
+    setVisualizerStyle(prefs.visualizerStyle);
+  };
+
+  const applyDeviceSettings = (device: DeviceSection) => {
+    applyThemePrefs(device.theme);
+    setCustomThemes(device.customThemes);
+    setLanguage(device.language.language);
+    setReplyInLanguage(device.language.replyInLanguage);
+    setCaptureChunkSize(device.audio.chunkSize);
+    setMicMode(device.audio.micMode);
+    setPlaybackVolume(device.audio.volume);
+    setJitterBufferMs(device.audio.jitterBufferMs);
+    setDuckOnSpeech(device.audio.duckOnSpeech);
+    setFrameSettings(device.video);
+    setScreenLayout(device.screenShare);
+    setKeymap(device.keymap);
+    setHighContrast(device.accessibility.highContrast);
+    setForceReducedMotion(device.accessibility.reduceMotion);
+  };
+
+  // The ref is set here so the camera effect below opens the right devices
+  const applyProfileSettings = (profile: ProfileSection) => {
+    if (profile.theme) applyThemePrefs(profile.theme);
+    setCustomPersonas(profile.personas.presets);
+    setPersona([...BUILTIN_PERSONAS, ...profile.personas.presets].find(p => p.id === profile.personas.activeId) ?? DEFAULT_PERSONA);
+    deviceSelectionRef.current = profile.devices;
+    setDeviceSelection(profile.devices);
+    setCustomFilters(profile.filters);
+    setMissionNotes(profile.notes);
+  };
 
   // --- Auth Logic ---
-  useEffect(() => {
-    // Check for saved session
-    const savedUserStr = localStorage.getItem('rinu_user');
-    if (savedUserStr) {
-        const savedUser = JSON.parse(savedUserStr);
-        setIsAuthenticated(true);
-        setStoredPhone(savedUser.phone || '');
-        if (savedUser.name) setUserName(savedUser.name);
+  const applyAuthSession = useCallback((session: AuthSession) => {
+    saveAuthSession(session);
+    setAuthSession(session);
+    setStoredPhone(session.user.phone);
+    setIsAuthenticated(true);
+
+    // Profile details stay local; only trust them for the number the server signed in
+    const known = rememberProfile(session.user.phone);
+    setProfiles(known);
+    setUserName(known.find(p => p.phone === session.user.phone)?.name ?? '');
+  }, []);
+
+  // Exchange a profile's saved token pair; without one (or if it was revoked) the auth
+  // screen opens with the number filled in
+  const resumeProfile = useCallback((phone: string) => {
+    const country = COUNTRY_CODES.find(c => phone.startsWith(c.code));
+    if (country) {
+        setCountryCode(country.code);
+        setPhoneNumber(phone.slice(country.code.length));
     }
+    const savedSession = loadAuthSession(phone);
+    if (!savedSession) return;
+    setIsAuthLoading(true);
+    refreshSession(savedSession.refreshToken)
+        .then(applyAuthSession)
+        .catch(err => {
+            const code = authErrorCode(err);
+            // Keep the tokens if the server is just down, so a later reload can still restore them
+            if (code !== 'AUTH_SERVER_UNREACHABLE') clearAuthSession(phone);
+            setErrorMsg(code);
+        })
+        .finally(() => setIsAuthLoading(false));
+  }, [applyAuthSession]);
+
+  useEffect(() => {
+    // A saved token pair is only a claim: exchange it with the server before letting the operator in
+    const { activePhone, profiles: knownProfiles } = loadProfiles();
+    setProfiles(knownProfiles);
+    if (activePhone) resumeProfile(activePhone);
     
-    // Check saved theme preferences
-    const savedTheme = localStorage.getItem('rinu_theme');
-    if (savedTheme) {
-        const pref = JSON.parse(savedTheme);
-        setThemeIndex(pref.themeIndex ?? 0);
-        setShowGrid(pref.showGrid ?? true);
-        setShowScanlines(pref.showScanlines ?? true);
-    }
+    // Device-wide settings (these style the auth screen); a profile's own are applied on sign-in
+    applyDeviceSettings(getDeviceSettings());
+    setLoadedPhone('');
   }, []);
 
-  // Save theme settings on change
+  // Each profile has its own look, personas, devices, filters and notes
   useEffect(() => {
-      localStorage.setItem('rinu_theme', JSON.stringify({
-          themeIndex,
-          showGrid,
-          showScanlines
-      }));
-  }, [themeIndex, showGrid, showScanlines]);
+      if (!storedPhone) return;
+      applyProfileSettings(getProfileSettings(storedPhone));
+      setLoadedPhone(storedPhone);
+  }, [storedPhone]);
+
+  // Save effects wait until the state holds what was loaded, so the defaults or the previous
+  // profile's values never overwrite the store (and never reach other tabs)
+  const settingsReady = loadedPhone === storedPhone;
+
+  // Another tab changed settings. Lists follow along; the active persona and devices are
+  // this tab's own choice. Signed-in tabs never write the device theme, so two tabs on
+  // different profiles don't keep overwriting each other's look.
+  useEffect(() => subscribeSettings(settings => {
+      applyDeviceSettings(settings.device);
+      const profile = storedPhone ? settings.profiles[storedPhone] : undefined;
+      if (!profile) return;
+      if (profile.theme) applyThemePrefs(profile.theme);
+      setCustomPersonas(profile.personas.presets);
+      setCustomFilters(profile.filters);
+      setMissionNotes(profile.notes);
+  }), [storedPhone]);
+
+  // A signed-in operator's theme is theirs; once signed out it stays on the auth screen
+  useEffect(() => {
+      if (!settingsReady) return;
+      const prefs = { themeId, showGrid, showScanlines, visualizerStyle };
+      if (storedPhone) setProfileSetting(storedPhone, 'theme', prefs);
+      else setDeviceSetting('theme', prefs);
+  }, [themeId, showGrid, showScanlines, visualizerStyle, storedPhone, settingsReady]);
+
+  const i18n = useMemo(() => createTranslator(language), [language]);
+  const { t } = i18n;
+
+  useEffect(() => {
+      document.documentElement.lang = language;
+      if (settingsReady) setDeviceSetting('language', { language, replyInLanguage });
+  }, [language, replyInLanguage, settingsReady]);
+
+  useEffect(() => {
+      if (!settingsReady) return;
+      setDeviceSetting('audio', {
+          chunkSize: captureChunkSize,
+          micMode,
+          volume: playbackVolume,
+          jitterBufferMs,
+          duckOnSpeech
+      });
+  }, [captureChunkSize, micMode, playbackVolume, jitterBufferMs, duckOnSpeech, settingsReady]);
+
+  useEffect(() => {
+      if (settingsReady) setDeviceSetting('video', frameSettings);
+  }, [frameSettings, settingsReady]);
+
+  useEffect(() => {
+      if (settingsReady) setDeviceSetting('screenShare', screenLayout);
+  }, [screenLayout, settingsReady]);
+
+  useEffect(() => {
+      if (settingsReady) setDeviceSetting('keymap', keymap);
+  }, [keymap, settingsReady]);
+
+  // Both modes are global classes styled in index.html, so they also cover the auth screen
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const reduceMotion = prefersReducedMotion || forceReducedMotion;
+  useEffect(() => {
+      document.documentElement.classList.toggle('reduce-motion', reduceMotion);
+      document.documentElement.classList.toggle('high-contrast', highContrast);
+  }, [reduceMotion, highContrast]);
+
+  useEffect(() => {
+      if (settingsReady) setDeviceSetting('accessibility', { highContrast, reduceMotion: forceReducedMotion });
+  }, [highContrast, forceReducedMotion, settingsReady]);
+
+  useEffect(() => {
+      missionNotesRef.current = missionNotes;
+      if (storedPhone && settingsReady) setProfileSetting(storedPhone, 'notes', missionNotes);
+  }, [missionNotes, storedPhone, settingsReady]);
+
+  // Resend cooldown ticker for the access code step
+  useEffect(() => {
+    if (!otpChallenge) return;
+    const tick = () => setResendCountdown(Math.max(0, Math.ceil((otpChallenge.resendAvailableAt - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [otpChallenge]);
+
+  const requestOtp = async () => {
+    const fullNumber = countryCode + phoneNumber;
+    setErrorMsg(null);
+    setIsAuthLoading(true);
+    try {
+        setOtpChallenge(await authProvider.requestOtp(fullNumber));
+        setAuthStep('otp');
+    } catch (err) {
+        if (err instanceof AuthError && err.code === 'OTP_RESEND_COOLDOWN') {
+            // A code is already on its way; go enter it
+            setOtpChallenge(prev => ({
+                expiresAt: prev?.expiresAt ?? Date.now(),
+                codeLength: prev?.codeLength ?? 6,
+                resendAvailableAt: Date.now() + (err.details.retryAfterMs ?? 0),
+            }));
+            setAuthStep('otp');
+        } else {
+            console.error("Error requesting access code:", err);
+            setErrorMsg(authErrorCode(err));
+        }
+    } finally {
+        setIsAuthLoading(false);
+    }
+  };
 
   const handleSendOtp = (e: React.FormEvent) => {
     e.preventDefault();
@@ -192,46 +500,44 @@ const App: React.FC = () => {
         setErrorMsg("INVALID_NUMBER_FORMAT");
         return;
     }
-    setErrorMsg(null);
-    setIsAuthLoading(true);
-    
-    // Simulate API call
-    setTimeout(() => {
-        setIsAuthLoading(false);
-        setAuthStep('otp');
-    }, 1500);
+    requestOtp();
   };
 
-  const handleVerifyOtp = (e: React.FormEvent) => {
+  const handleVerifyOtp = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!otpInput || otpInput.length < 4) {
+    if (!otpInput || otpInput.length < (otpChallenge?.codeLength ?? 6)) {
         setErrorMsg("INVALID_ACCESS_CODE");
         return;
     }
     
     setIsAuthLoading(true);
-    // Simulate verification
-    setTimeout(() => {
-        setIsAuthLoading(false);
-        const fullNumber = countryCode + phoneNumber;
-        const userData = { phone: fullNumber, name: '' };
-        localStorage.setItem('rinu_user', JSON.stringify(userData));
-        setStoredPhone(fullNumber);
-        setIsAuthenticated(true);
+    try {
+        const session = await authProvider.verifyOtp(countryCode + phoneNumber, otpInput);
+        applyAuthSession(session);
+        setOtpChallenge(null);
+        setOtpInput('');
         setErrorMsg(null);
-    }, 1500);
+    } catch (err) {
+        const code = authErrorCode(err);
+        const attemptsLeft = err instanceof AuthError ? err.details.attemptsLeft : undefined;
+        setErrorMsg(attemptsLeft !== undefined ? `${code} // ${attemptsLeft}_ATTEMPTS_LEFT` : code);
+        if (code !== 'INVALID_ACCESS_CODE') setOtpInput('');
+    } finally {
+        setIsAuthLoading(false);
+    }
   };
 
   const handleSaveProfile = (e: React.FormEvent) => {
     e.preventDefault();
-    const userData = { phone: storedPhone, name: userName };
-    localStorage.setItem('rinu_user', JSON.stringify(userData));
-    // Close sidebar if open for specific reason, but here we keep it or can show a toast
+    setProfiles(renameProfile(storedPhone, userName));
   };
 
-  const handleLogout = () => {
+  // Back to the auth screen with no operator loaded; their saved data stays on the device
+  const closeProfile = () => {
     stopSession();
-    localStorage.removeItem('rinu_user');
+    deactivateProfile();
+    setAuthSession(null);
+    setOtpChallenge(null);
     setIsAuthenticated(false);
     setIsSidebarOpen(false);
     setAuthStep('phone');
@@ -239,15 +545,546 @@ const App: React.FC = () => {
     setOtpInput('');
     setUserName('');
     setStoredPhone('');
+    setLoadedPhone('');
+    setCustomPersonas([]);
+    setPersona(DEFAULT_PERSONA);
+    setMissionNotes([]);
+    setSessions([]);
+    setRecordings([]);
+    setReviewedSession(null);
+    setTranscript([]);
+    clearSnapshots();
+  };
+
+  const revokeSession = (session: AuthSession) => {
+    // Revoke server-side; the local sign-out doesn't wait on it
+    authProvider.logout(session).catch(err => console.error("Error revoking session:", err));
+  };
+
+  const handleLogout = () => {
+    if (authSession) revokeSession(authSession);
+    clearAuthSession(storedPhone);
+    closeProfile();
   };
 
+  // The current operator's tokens are kept, so switching back needs no access code
+  const handleSwitchProfile = (phone: string) => {
+    closeProfile();
+    setErrorMsg(null);
+    resumeProfile(phone);
+  };
+
+  const handleForgetProfile = (phone: string) => {
+    const session = phone === storedPhone ? authSession : loadAuthSession(phone);
+    if (session) revokeSession(session);
+    if (phone === storedPhone) closeProfile();
+    setProfiles(prev => prev.filter(p => p.phone !== phone));
+    forgetProfile(phone).catch(err => console.error("Error forgetting profile:", err));
+  };
+
+  // Keep the access token fresh; a rejected refresh signs the operator out
+  useEffect(() => {
+    if (!authSession) return;
+    const delay = Math.max(0, authSession.expiresAt - REFRESH_LEAD_MS - Date.now());
+    let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+    const timeout = setTimeout(() => {
+        refreshSession(authSession.refreshToken)
+            .then(applyAuthSession)
+            .catch(err => {
+                const code = authErrorCode(err);
+                if (code === 'AUTH_SERVER_UNREACHABLE') {
+                    retryTimeout = setTimeout(() => setRefreshRetry(n => n + 1), AUTH_RETRY_DELAY_MS);
+                    return;
+                }
+                console.error("Error refreshing session:", err);
+                handleLogout();
+                setErrorMsg(code);
+            });
+    }, delay);
+    return () => {
+        clearTimeout(timeout);
+        clearTimeout(retryTimeout);
+    };
+  }, [authSession, refreshRetry]);
+
   // --- App Logic ---
 
   useEffect(() => {
     activeFilterRef.current = activeFilter;
   }, [activeFilter]);
 
-  const getConstraints = (quality: VideoQuality) => {
+  useEffect(() => {
+    snapshotsRef.current = snapshots;
+  }, [snapshots]);
+
+  // The gallery's blob URLs die with the app
+  useEffect(() => () => snapshotsRef.current.forEach(snapshot => URL.revokeObjectURL(snapshot.url)), []);
+
+  useEffect(() => {
+    isScreenSharingRef.current = isScreenSharing;
+  }, [isScreenSharing]);
+
+  useEffect(() => {
+    if (recordingStartedAt === null) return;
+    const tick = () => setRecordingElapsed(Math.floor((Date.now() - recordingStartedAt) / 1000));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [recordingStartedAt]);
+
+  useEffect(() => {
+    transcriptRef.current = transcript;
+  }, [transcript]);
+
+  useEffect(() => {
+    isVideoEnabledRef.current = isVideoEnabled;
+  }, [isVideoEnabled]);
+
+  // Rinu is "talking" while output level stays above the threshold (with a short hold)
+  useEffect(() => {
+    if (!outputAnalyser) return;
+    const buffer = new Float32Array(outputAnalyser.fftSize);
+    let lastLoudAt = 0;
+    const interval = setInterval(() => {
+      const now = performance.now();
+      if (measureLevel(outputAnalyser, buffer) > TALKING_LEVEL_THRESHOLD) lastLoudAt = now;
+      setIsAiTalking(now - lastLoudAt < TALKING_HOLD_MS);
+    }, 50);
+    return () => clearInterval(interval);
+  }, [outputAnalyser]);
+
+  // Always-on mode has no gate telling us when the operator speaks, so listen to the mic level
+  useEffect(() => {
+    if (!micAnalyser || micMode !== 'always' || isMuted) {
+      setIsMicSpeaking(false);
+      return;
+    }
+    const buffer = new Float32Array(micAnalyser.fftSize);
+    let lastLoudAt = 0;
+    const interval = setInterval(() => {
+      const now = performance.now();
+      if (measureLevel(micAnalyser, buffer) > TALKING_LEVEL_THRESHOLD) lastLoudAt = now;
+      setIsMicSpeaking(now - lastLoudAt < TALKING_HOLD_MS);
+    }, 50);
+    return () => clearInterval(interval);
+  }, [micAnalyser, micMode, isMuted]);
+
+  const isOperatorSpeaking = !isMuted && (micMode === 'always' ? isMicSpeaking : isVoiceActive);
+
+  useEffect(() => {
+    playbackRef.current?.setDucking(duckOnSpeech && isOperatorSpeaking);
+  }, [duckOnSpeech, isOperatorSpeaking]);
+
+  useEffect(() => {
+    playbackRef.current?.setVolume(playbackVolume);
+  }, [playbackVolume]);
+
+  // --- Persona Logic ---
+  // Presets are stored per operator (keyed by phone)
+  const personaPresets = [...BUILTIN_PERSONAS, ...customPersonas];
+  const savedPersona = personaPresets.find(p => p.id === persona.id);
+  const isPersonaDirty = !!savedPersona && (
+    savedPersona.voiceName !== persona.voiceName ||
+    savedPersona.languageCode !== persona.languageCode ||
+    savedPersona.instruction !== persona.instruction
+  );
+
+  const persistPersonas = (presets: PersonaPreset[], activeId: string) => {
+    setCustomPersonas(presets);
+    if (storedPhone) setProfileSetting(storedPhone, 'personas', { presets, activeId });
+  };
+
+  const handleSelectPersona = (id: string) => {
+    const preset = personaPresets.find(p => p.id === id) ?? DEFAULT_PERSONA;
+    setPersona(preset);
+    persistPersonas(customPersonas, preset.id);
+  };
+
+  const handleSavePersonaAs = (name: string) => {
+    const preset: PersonaPreset = { ...persona, id: createLocalId('persona'), name, builtIn: false };
+    setPersona(preset);
+    persistPersonas([...customPersonas, preset], preset.id);
+  };
+
+  const handleUpdatePersona = () => {
+    if (persona.builtIn) return;
+    persistPersonas(customPersonas.map(p => (p.id === persona.id ? persona : p)), persona.id);
+  };
+
+  const handleDeletePersona = (id: string) => {
+    setPersona(DEFAULT_PERSONA);
+    persistPersonas(customPersonas.filter(p => p.id !== id), DEFAULT_PERSONA.id);
+  };
+
+  // --- Filter Logic ---
+  // Custom presets are stored per operator too
+  const persistFilters = (presets: FilterPreset[]) => {
+    setCustomFilters(presets);
+    if (storedPhone) setProfileSetting(storedPhone, 'filters', presets);
+  };
+
+  const handleSaveFilter = (name: string, adjustments: FilterAdjustments, shader: ShaderEffect | null) => {
+    const preset: FilterPreset = { id: createLocalId('filter'), name, adjustments, shader };
+    persistFilters([...customFilters, preset]);
+    return preset;
+  };
+
+  const handleDeleteFilter = (id: string) => {
+    if (activeFilter.id === id) setActiveFilter(NO_FILTER);
+    persistFilters(customFilters.filter(p => p.id !== id));
+  };
+
+  // The camera with its filter applied. Shader effects are rendered on demand here so
+  // uploads stay fresh even when rAF is throttled.
+  const cameraFrame = (video: HTMLVideoElement): { source: FrameSource; filter: string } => {
+    const { css, shader } = activeFilterRef.current;
+    const renderer = shaderRendererRef.current;
+    if (shader && renderer) {
+      try {
+        if (renderer.render(video, css, shader)) return { source: renderer.canvas, filter: 'none' };
+      } catch (err) {
+        console.error("Error rendering shader filter:", err);
+        setErrorMsg("SHADER_FAILED");
+        setActiveFilter(NO_FILTER);
+      }
+    }
+    return { source: video, filter: css };
+  };
+
+  const getCompositor = () => {
+    const canvas = compositeCanvasRef.current;
+    if (!canvas) return null;
+    if (compositorRef.current?.canvas !== canvas) compositorRef.current = createScreenCompositor(canvas);
+    return compositorRef.current;
+  };
+
+  // The frame the preview canvases, the recorder and (outside alternate mode) the model all see.
+  // Filters only ever apply to the camera, never to the shared screen.
+  const currentFrameSource = (): { source: FrameSource; filter: string } | null => {
+    const video = videoRef.current;
+    if (!video) return null;
+    if (!isScreenSharingRef.current) return cameraFrame(video);
+    if (screenLayoutRef.current.mode === 'screen') return { source: video, filter: 'none' };
+    const compositor = getCompositor();
+    const camera = cameraVideoRef.current ? cameraFrame(cameraVideoRef.current) : null;
+    if (compositor?.draw(video, camera, screenLayoutRef.current, themeColorRef.current)) return { source: compositor.canvas, filter: 'none' };
+    return { source: video, filter: 'none' };
+  };
+
+  // What the uplink sends on a given tick: alternate mode takes turns between screen and camera
+  const uplinkFrameSource = (tick: number): { source: FrameSource; filter: string; stream: string } | null => {
+    if (isScreenSharingRef.current && screenLayoutRef.current.mode === 'alternate' && videoRef.current && cameraVideoRef.current) {
+      return tick % 2 === 0
+        ? { source: videoRef.current, filter: 'none', stream: 'screen' }
+        : { ...cameraFrame(cameraVideoRef.current), stream: 'camera' };
+    }
+    const current = currentFrameSource();
+    return current && { ...current, stream: 'main' };
+  };
+
+  // Screen sharing keeps the camera running only while a layout shows it
+  const isCameraInShare = screenLayout.mode !== 'screen';
+  const filtersAvailable = !isScreenSharing || isCameraInShare;
+  const syncShareCamera = () => {
+    if (!isScreenSharingRef.current) return;
+    const wanted = screenLayoutRef.current.mode !== 'screen';
+    streamRef.current?.getVideoTracks().forEach(track => track.enabled = wanted);
+    if (cameraVideoRef.current) cameraVideoRef.current.srcObject = wanted ? streamRef.current : null;
+  };
+
+  useEffect(() => {
+    screenLayoutRef.current = screenLayout;
+    syncShareCamera();
+  }, [screenLayout]);
+
+  // Which canvas, if any, stands in for the <video>; CSS-only filters are applied straight on it
+  const previewCanvas = !isVideoEnabled
+    ? null
+    : isScreenSharing
+      ? (isCameraInShare ? 'composite' : null)
+      : (activeFilter.shader ? 'shader' : null);
+  const needsShader = !!activeFilter.shader && isVideoEnabled && (!isScreenSharing || isCameraInShare);
+
+  useEffect(() => {
+    const canvas = shaderCanvasRef.current;
+    if (!needsShader || !canvas) return;
+    // The canvas is remounted after a logout / login cycle
+    if (shaderRendererRef.current?.canvas === canvas) return;
+    shaderRendererRef.current?.dispose();
+    shaderRendererRef.current = null;
+    try {
+      shaderRendererRef.current = createShaderRenderer(canvas);
+    } catch (err) {
+      console.error("Error compiling shader filters:", err);
+    }
+    if (!shaderRendererRef.current) {
+      setErrorMsg("WEBGL_UNAVAILABLE");
+      setActiveFilter(NO_FILTER);
+    }
+  }, [needsShader]);
+
+  // Preview loop: redraws the shader or composite canvas every frame
+  useEffect(() => {
+    if (!previewCanvas) return;
+    let frame = 0;
+    const draw = () => {
+      currentFrameSource();
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [previewCanvas]);
+
+  // Dragging the camera inset on the composite preview
+  const toCompositePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    // The canvas is letterboxed (object-contain) inside its box
+    const scale = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+    return {
+      x: (e.clientX - rect.left - (rect.width - canvas.width * scale) / 2) / scale,
+      y: (e.clientY - rect.top - (rect.height - canvas.height * scale) / 2) / scale,
+    };
+  };
+
+  const handleInsetPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const inset = compositorRef.current?.getInset();
+    if (!inset) return;
+    const point = toCompositePoint(e);
+    const action = hitTestInset(inset, point.x, point.y);
+    if (!action) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    insetDragRef.current = { action, start: inset, origin: point };
+  };
+
+  const handleInsetPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = insetDragRef.current;
+    if (!drag) return;
+    const point = toCompositePoint(e);
+    const { width, height } = e.currentTarget;
+    setScreenLayout(prev => dragInset(prev, drag.action, drag.start, point.x - drag.origin.x, point.y - drag.origin.y, width, height));
+  };
+
+  const handleInsetPointerUp = () => {
+    insetDragRef.current = null;
+  };
+
+  useEffect(() => () => shaderRendererRef.current?.dispose(), []);
+
+  // --- Theme Logic ---
+  const persistThemes = (themes: ThemeDefinition[]) => {
+    setCustomThemes(themes);
+    setDeviceSetting('customThemes', themes);
+  };
+
+  const handleSaveTheme = (theme: ThemeDefinition) => {
+    const exists = customThemes.some(t => t.id === theme.id);
+    persistThemes(exists ? customThemes.map(t => (t.id === theme.id ? theme : t)) : [...customThemes, theme]);
+    setThemeId(theme.id);
+  };
+
+  const handleDeleteTheme = (id: string) => {
+    persistThemes(customThemes.filter(t => t.id !== id));
+    if (themeId === id) setThemeId(DEFAULT_THEME.id);
+  };
+
+  // Imports replace custom themes with the same id; a clash with a built-in becomes a copy
+  const handleImportThemes = (text: string) => {
+    try {
+      const imported = parseThemeImport(text).map(theme =>
+        THEMES.some(t => t.id === theme.id) ? { ...theme, id: createLocalId('theme') } : theme,
+      );
+      const ids = new Set(imported.map(t => t.id));
+      persistThemes([...customThemes.filter(t => !ids.has(t.id)), ...imported]);
+      setThemeId(imported[0].id);
+    } catch (err) {
+      console.error("Error importing themes:", err);
+      setErrorMsg(err instanceof ThemeImportError ? err.code : "THEME_IMPORT_FAILED");
+    }
+  };
+
+  // --- Settings Transfer ---
+  const handleImportSettings = (text: string) => {
+    try {
+      const settings = importSettings(text, storedPhone || null);
+      applyDeviceSettings(settings.device);
+      if (storedPhone) applyProfileSettings(getProfileSettings(storedPhone));
+    } catch (err) {
+      console.error("Error importing settings:", err);
+      setErrorMsg(err instanceof SettingsImportError ? err.code : "SETTINGS_IMPORT_FAILED");
+    }
+  };
+
+  // --- Tool Logic ---
+  const addMissionNote = (text: string) => {
+    setMissionNotes(prev => [...prev, { id: createLocalId('note'), text, createdAt: Date.now() }]);
+  };
+
+  const startTimer = (seconds: number, label: string) => {
+    const id = createLocalId('timer');
+    setActiveTimers(prev => [...prev, { id, label, endsAt: Date.now() + seconds * 1000 }]);
+    const timeout = window.setTimeout(() => {
+      timerTimeoutsRef.current.delete(id);
+      setActiveTimers(prev => prev.filter(t => t.id !== id));
+      setToolLog(prev => [...prev, { id, name: 'timer_elapsed', args: { label }, status: 'ok' as const, timestamp: Date.now() }].slice(-MAX_TOOL_LOG));
+      // Let Rinu announce it if the call is still up
+      if (linkUpRef.current) {
+        sessionPromiseRef.current?.then(session => session.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: `[SYSTEM] Timer "${label}" has elapsed. Inform the operator.` }] }],
+          turnComplete: true,
+        }));
+      }
+    }, seconds * 1000);
+    timerTimeoutsRef.current.set(id, timeout);
+  };
+
+  useEffect(() => {
+    const timeouts = timerTimeoutsRef.current;
+    return () => timeouts.forEach(timeout => clearTimeout(timeout));
+  }, []);
+
+  // Handlers only touch state setters and refs, so one registry serves the app's lifetime
+  const toolRegistry = useMemo(() => createToolRegistry(createBuiltinTools({
+    startTimer,
+    setFilter: setActiveFilter,
+    setTheme: setThemeId,
+    setVideoEnabled: setIsVideoEnabled,
+    addMissionNote,
+    getMissionNotes: () => missionNotesRef.current.map(note => note.text),
+  })), []);
+
+  const runToolCalls = async (calls: FunctionCall[], sessionPromise: Promise<LiveSession>) => {
+    const responses = await Promise.all(calls.map(async call => {
+      const id = call.id ?? createLocalId('call');
+      setToolLog(prev => [...prev, { id, name: call.name ?? 'unknown', args: call.args ?? {}, status: 'running' as const, timestamp: Date.now() }].slice(-MAX_TOOL_LOG));
+
+      const response = await toolRegistry.execute(call);
+      const error = response.response?.error;
+      setToolLog(prev => prev.map(entry => entry.id !== id || entry.status === 'cancelled' ? entry : {
+        ...entry,
+        status: error ? 'error' : 'ok',
+        result: error ? String(error) : JSON.stringify(response.response?.output),
+      }));
+      return response;
+    }));
+
+    if (sessionPromiseRef.current !== sessionPromise) return;
+    const functionResponses = responses.filter(r => !r.id || !cancelledToolCallsRef.current.has(r.id));
+    if (functionResponses.length === 0) return;
+    sessionPromise.then(session => session.sendToolResponse({ functionResponses }));
+  };
+
+  const cancelToolCalls = (ids: string[]) => {
+    ids.forEach(id => cancelledToolCallsRef.current.add(id));
+    setToolLog(prev => prev.map(entry => ids.includes(entry.id) && entry.status === 'running' ? { ...entry, status: 'cancelled' } : entry));
+  };
+
+  // --- Session History Logic ---
+  const refreshSessions = useCallback(() => {
+    if (!storedPhone) return;
+    listSessions(storedPhone)
+      .then(setSessions)
+      .catch(err => console.error("Error reading session history:", err));
+  }, [storedPhone]);
+
+  useEffect(() => {
+    if (isSidebarOpen) refreshSessions();
+  }, [isSidebarOpen, refreshSessions]);
+
+  const handleOpenSession = (session: SessionRecord) => {
+    if (connectionState === ConnectionState.CONNECTED) return;
+    setTranscript(session.turns);
+    setReviewedSession(session);
+    setIsSidebarOpen(false);
+  };
+
+  const handleDeleteSession = (session: SessionRecord) => {
+    deleteSession(session.id)
+      .then(() => {
+        if (reviewedSession?.id === session.id) {
+          setReviewedSession(null);
+          setTranscript([]);
+        }
+        refreshSessions();
+      })
+      .catch(err => console.error("Error deleting session:", err));
+  };
+
+  const handleExportSession = (session: SessionRecord, format: ExportFormat) => {
+    exportSession(session, format);
+  };
+
+  // --- Call Recordings ---
+  const refreshRecordings = useCallback(() => {
+    if (!storedPhone) return;
+    listRecordings(storedPhone)
+      .then(setRecordings)
+      .catch(err => console.error("Error reading recordings:", err));
+  }, [storedPhone]);
+
+  useEffect(() => {
+    refreshRecordings();
+  }, [refreshRecordings]);
+
+  const stopRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setRecordingStartedAt(null);
+    const sessionId = sessionRecordRef.current?.id;
+    recorder.stop()
+      .then(result => saveRecording({
+          id: createLocalId('rec'),
+          operator: storedPhone,
+          sessionId,
+          startedAt: result.startedAt,
+          durationMs: result.durationMs,
+          size: result.blob.size,
+          mimeType: result.mimeType,
+          blob: result.blob,
+      }))
+      .then(refreshRecordings)
+      .catch(err => console.error("Error saving recording:", err));
+  }, [refreshRecordings]);
+
+  const handleToggleRecording = () => {
+    if (recorderRef.current) {
+      stopRecording();
+      return;
+    }
+    if (!isRecordingSupported()) {
+      setErrorMsg("RECORDING_UNSUPPORTED");
+      return;
+    }
+    if (!playbackRef.current) return;
+    try {
+      const recorder = startCallRecording({
+        getSource: currentFrameSource,
+        isVideoEnabled: () => isVideoEnabledRef.current,
+        micStream: streamRef.current,
+        outputContext: playbackRef.current.context,
+        outputNode: playbackRef.current.analyser,
+      });
+      recorderRef.current = recorder;
+      setRecordingStartedAt(recorder.startedAt);
+    } catch (err) {
+      console.error("Error starting recording:", err);
+      setErrorMsg("RECORDING_FAILED");
+    }
+  };
+
+  const handleDeleteRecording = (recording: CallRecording) => {
+    deleteRecording(recording.id)
+      .then(refreshRecordings)
+      .catch(err => console.error("Error deleting recording:", err));
+  };
+
+  const handleOpenRecordingTranscript = (sessionId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (session) handleOpenSession(session);
+  };
+
+  const getConstraints = (quality: VideoQuality, devices: { cameraId: string; micId: string }) => {
     let width, height;
     switch (quality) {
       case VideoQuality.UHD:
@@ -266,33 +1103,57 @@ const App: React.FC = () => {
         echoCancellation: true,
         noiseSuppression: true,
         sampleRate: 16000,
+        ...(devices.micId ? { deviceId: { exact: devices.micId } } : {}),
       },
       video: {
         width: { ideal: width },
         height: { ideal: height },
-        facingMode: "user"
+        ...(devices.cameraId ? { deviceId: { exact: devices.cameraId } } : { facingMode: "user" }),
       }
     };
   };
 
-  const startCamera = async (quality: VideoQuality) => {
+  // Saved devices that are currently unplugged fall back to the default, with an alert
+  const resolveInputDevices = (lists: MediaDeviceLists | null) => {
+    const selection = deviceSelectionRef.current;
+    const missing = lists ? findMissingDevices(selection, lists).filter(kind => kind !== 'speaker') : [];
+    if (missing.length) setErrorMsg(missing.map(kind => `${kind.toUpperCase()}_DEVICE_MISSING`).join(' / '));
+    const { cameraId, micId } = clearDevices(selection, missing);
+    return { cameraId, micId };
+  };
+
+  const startCamera = async (quality: VideoQuality, keepScreenShare = false) => {
     try {
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
 
       // If screen sharing was active, stop it when changing camera settings
-      if (isScreenSharing) {
+      if (isScreenSharingRef.current && !keepScreenShare) {
           stopScreenShare();
       }
 
-      const constraints = getConstraints(quality);
+      const inputs = resolveInputDevices(await listMediaDevices().catch(() => null));
+      const constraints = getConstraints(quality, inputs);
       const stream = await navigator.mediaDevices.getUserMedia(constraints);
       streamRef.current = stream;
+      activeInputsRef.current = inputs;
+      stream.getAudioTracks().forEach(track => track.enabled = !isMutedRef.current);
 
-      if (videoRef.current) {
+      if (isScreenSharingRef.current && keepScreenShare) {
+        // The screen stays on display; the new camera feeds the inset or waits behind it
+        syncShareCamera();
+      } else if (videoRef.current) {
         videoRef.current.srcObject = stream;
       }
+
+      // Mid-call: move the mic uplink onto the new stream, the Live session itself stays up
+      if (callActiveRef.current) startAudioUplink(stream);
+
+      // Labels only show up once permission is granted, so list again now
+      const lists = await listMediaDevices();
+      setDeviceLists(lists);
+      defaultSignaturesRef.current = { camera: defaultDeviceSignature(lists, 'camera'), mic: defaultDeviceSignature(lists, 'mic') };
     } catch (err) {
       console.error("Error accessing camera:", err);
       setErrorMsg("CAMERA_ACCESS_DENIED");
@@ -328,12 +1189,12 @@ const App: React.FC = () => {
                 videoRef.current.srcObject = screenStream;
             }
             
-            // Disable camera video track to save resources and indicate switch
-            if (streamRef.current) {
-                streamRef.current.getVideoTracks().forEach(track => track.enabled = false);
-            }
+            // The camera moves to the inset, or is disabled to save resources when only the screen is sent
+            isScreenSharingRef.current = true;
+            syncShareCamera();
 
             setIsScreenSharing(true);
+            sessionRecordRef.current?.screenShareIntervals.push({ start: Date.now() });
             // Ensure video sending is enabled so we see the screen
             if (!isVideoEnabled) setIsVideoEnabled(true);
 
@@ -351,6 +1212,7 @@ const App: React.FC = () => {
       }
       
       // Re-enable camera
+      if (cameraVideoRef.current) cameraVideoRef.current.srcObject = null;
       if (streamRef.current) {
           streamRef.current.getVideoTracks().forEach(track => track.enabled = true);
           if (videoRef.current) {
@@ -358,40 +1220,115 @@ const App: React.FC = () => {
           }
       }
 
+      const openInterval = sessionRecordRef.current?.screenShareIntervals.find(interval => !interval.end);
+      if (openInterval) openInterval.end = Date.now();
+
       setIsScreenSharing(false);
   };
 
+  const clearReconnectTimer = () => {
+    if (reconnectTimerRef.current !== null) {
+      clearInterval(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+  };
+
+  // Close the current socket without triggering the reconnect path
+  const dropLiveSession = () => {
+    linkUpRef.current = false;
+    const stale = sessionPromiseRef.current;
+    sessionPromiseRef.current = null;
+    stale?.then(session => session.close()).catch(() => {});
+  };
+
+  const sendRealtimeMedia = (media: { data: string; mimeType: string }) => {
+    if (!linkUpRef.current || !sessionPromiseRef.current) return;
+    sessionPromiseRef.current.then(session => {
+      session.sendRealtimeInput({ media });
+    });
+  };
+
+  const sendActivitySignal = (signal: { activityStart?: ActivityStart; activityEnd?: ActivityEnd; audioStreamEnd?: boolean }) => {
+    if (!linkUpRef.current || !sessionPromiseRef.current) return;
+    sessionPromiseRef.current.then(session => session.sendRealtimeInput(signal));
+  };
+
+  // Every mic chunk passes through here; the mic mode decides whether it goes out
+  const handleMicChunk = (blob: { data: string; mimeType: string }, samples: Int16Array) => {
+    if (isMutedRef.current) return;
+    switch (micModeRef.current) {
+      case 'ptt':
+        if (pttActiveRef.current) sendRealtimeMedia(blob);
+        break;
+      case 'vad':
+        voiceGateRef.current?.process(blob, samples).forEach(sendRealtimeMedia);
+        break;
+      default:
+        sendRealtimeMedia(blob);
+    }
+  };
+
+  const startPushToTalk = () => {
+    if (micModeRef.current !== 'ptt' || pttActiveRef.current || isMutedRef.current || !callActiveRef.current) return;
+    pttActiveRef.current = true;
+    setIsVoiceActive(true);
+    sendActivitySignal({ activityStart: {} });
+  };
+
+  const endPushToTalk = () => {
+    if (!pttActiveRef.current) return;
+    pttActiveRef.current = false;
+    setIsVoiceActive(false);
+    sendActivitySignal({ activityEnd: {} });
+  };
+
+  const toggleMute = () => {
+    const muted = !isMutedRef.current;
+    isMutedRef.current = muted;
+    setIsMuted(muted);
+    // Disabling the track also keeps the mic out of recordings
+    streamRef.current?.getAudioTracks().forEach(track => track.enabled = !muted);
+    if (!muted) return;
+    endPushToTalk();
+    voiceGateRef.current?.reset();
+    if (micModeRef.current === 'always') sendActivitySignal({ audioStreamEnd: true });
+  };
+
   const stopSession = useCallback(() => {
+    callActiveRef.current = false;
+    clearReconnectTimer();
+    dropLiveSession();
+    resumeHandleRef.current = undefined;
+    reconnectAttemptRef.current = 0;
+    setReconnectCountdown(null);
+
     if (frameIntervalRef.current) {
       clearInterval(frameIntervalRef.current);
       frameIntervalRef.current = null;
     }
 
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current.onaudioprocess = null;
-      processorRef.current = null;
-    }
-    if (inputSourceRef.current) {
-      inputSourceRef.current.disconnect();
-      inputSourceRef.current = null;
-    }
-    if (inputAudioContextRef.current) {
-      inputAudioContextRef.current.close();
-      inputAudioContextRef.current = null;
+    // Finish the recording while its audio graph is still alive
+    stopRecording();
+
+    if (audioCaptureRef.current) {
+      audioCaptureRef.current.stop();
+      audioCaptureRef.current = null;
     }
 
-    if (outputAudioContextRef.current) {
-      outputAudioContextRef.current.close();
-      outputAudioContextRef.current = null;
+    if (playbackRef.current) {
+      playbackRef.current.close().catch(console.error);
+      playbackRef.current = null;
     }
-    sourcesRef.current.forEach(source => source.stop());
-    sourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
+    setMicAnalyser(null);
+    setOutputAnalyser(null);
+    pttActiveRef.current = false;
+    voiceGateRef.current = null;
+    setIsVoiceActive(false);
 
-    sessionPromiseRef.current = null;
     setConnectionState(ConnectionState.DISCONNECTED);
     setIsAiTalking(false);
+    setUplinkStats(null);
+    setTranscript(prev => finalizeTurns(prev));
 
     if (isScreenSharing) {
         stopScreenShare();
@@ -400,140 +1337,336 @@ const App: React.FC = () => {
     if (document.pictureInPictureElement) {
         document.exitPictureInPicture().catch(console.error);
     }
-  }, [isScreenSharing]);
 
-  const startSession = async () => {
-    if (!process.env.API_KEY) {
-        setErrorMsg("API_KEY_MISSING");
-        return;
+    // Persist the finished call to session history
+    const record = sessionRecordRef.current;
+    if (record) {
+        sessionRecordRef.current = null;
+        const endedAt = Date.now();
+        record.endedAt = endedAt;
+        record.screenShareIntervals.forEach(interval => { if (!interval.end) interval.end = endedAt; });
+        record.turns = finalizeTurns(transcriptRef.current);
+        saveSession(record)
+            .then(refreshSessions)
+            .catch(err => console.error("Error saving session:", err));
     }
+  }, [isScreenSharing, refreshSessions, stopRecording]);
 
-    setConnectionState(ConnectionState.CONNECTING);
-    setErrorMsg(null);
+  // Back off exponentially between attempts; camera, mic capture and the frame loop keep running
+  const scheduleReconnect = () => {
+    if (!callActiveRef.current || reconnectTimerRef.current !== null) return;
+    dropLiveSession();
 
-    try {
-      inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: `You are Rinu, a tactical AI interface. The operator's alias is ${userName || 'User'}. Keep responses concise, robotic but helpful, and mission-oriented.`,
-        },
-        callbacks: {
-          onopen: () => {
-            console.log("UPLINK_ESTABLISHED");
-            setConnectionState(ConnectionState.CONNECTED);
+    const attempt = reconnectAttemptRef.current + 1;
+    if (attempt > RECONNECT_MAX_ATTEMPTS) {
+      setErrorMsg("UPLINK_FAILURE_DETECTED");
+      stopSession();
+      return;
+    }
+    reconnectAttemptRef.current = attempt;
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+    const deadline = Date.now() + delay;
+    setConnectionState(ConnectionState.RECONNECTING);
+    setReconnectAttempt(attempt);
+    setReconnectCountdown(Math.ceil(delay / 1000));
+
+    reconnectTimerRef.current = window.setInterval(() => {
+      const remaining = deadline - Date.now();
+      if (remaining > 0) {
+        setReconnectCountdown(Math.ceil(remaining / 1000));
+        return;
+      }
+      clearReconnectTimer();
+      setReconnectCountdown(0);
+      connectLive();
+    }, 250);
+  };
 
-            if (!streamRef.current || !inputAudioContextRef.current) return;
+  const connectLive = () => {
+    const sessionPromise = liveTransport.connect({
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: persona.voiceName } },
+          languageCode: persona.languageCode || undefined,
+        },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        tools: [{ functionDeclarations: toolRegistry.declarations }],
+        // Resume the previous conversation when reconnecting
+        sessionResumption: { handle: resumeHandleRef.current },
+        contextWindowCompression: { slidingWindow: {} },
+        // Push-to-talk marks turns itself with activityStart/End
+        realtimeInputConfig: micModeRef.current === 'ptt' ? { automaticActivityDetection: { disabled: true } } : undefined,
+        systemInstruction: [
+          renderPersonaInstruction(persona.instruction, { userName, languageCode: persona.languageCode }),
+          replyInLanguage ? replyLanguageInstruction(language) : '',
+        ].filter(Boolean).join('\n\n'),
+      },
+      callbacks: {
+        onopen: () => {
+          if (sessionPromiseRef.current !== sessionPromise) return;
+          console.log("UPLINK_ESTABLISHED");
+          linkUpRef.current = true;
+          reconnectAttemptRef.current = 0;
+          setReconnectAttempt(0);
+          setReconnectCountdown(null);
+          setErrorMsg(null);
+          setConnectionState(ConnectionState.CONNECTED);
+        },
+        onmessage: async (message: LiveServerMessage) => {
+           if (sessionPromiseRef.current !== sessionPromise) return;
+
+           const resumption = message.sessionResumptionUpdate;
+           if (resumption?.resumable && resumption.newHandle) {
+               resumeHandleRef.current = resumption.newHandle;
+           }
+
+           // Server is about to drop us: move to a fresh socket now, resuming via the latest handle
+           if (message.goAway) {
+               console.log("UPLINK_GOAWAY", message.goAway.timeLeft);
+               dropLiveSession();
+               setConnectionState(ConnectionState.RECONNECTING);
+               connectLive();
+               return;
+           }
+
+           if (message.toolCall?.functionCalls?.length) {
+               runToolCalls(message.toolCall.functionCalls, sessionPromise);
+           }
+
+           if (message.toolCallCancellation?.ids?.length) {
+               cancelToolCalls(message.toolCallCancellation.ids);
+           }
+
+           const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+           if (base64Audio && playbackRef.current) {
+              try {
+                  playbackRef.current.enqueue(decode(base64Audio));
+              } catch (e) {
+                  console.error("Audio decode error", e);
+              }
+           }
+
+           const inputTranscription = message.serverContent?.inputTranscription;
+           if (inputTranscription) {
+               setTranscript(prev => appendTranscriptChunk(prev, 'operator', inputTranscription.text ?? '', inputTranscription.finished));
+           }
+
+           const outputTranscription = message.serverContent?.outputTranscription;
+           if (outputTranscription) {
+               setTranscript(prev => appendTranscriptChunk(prev, 'rinu', outputTranscription.text ?? '', outputTranscription.finished));
+           }
+
+           const interrupted = message.serverContent?.interrupted;
+           if (interrupted) {
+               playbackRef.current?.interrupt();
+               setIsAiTalking(false);
+               setTranscript(prev => finalizeTurns(prev, 'rinu'));
+           }
+
+           if (message.serverContent?.turnComplete) {
+               playbackRef.current?.endTurn();
+               setTranscript(prev => finalizeTurns(prev));
+           }
+        },
+        onclose: () => {
+          if (sessionPromiseRef.current !== sessionPromise) return;
+          console.log("UPLINK_LOST");
+          scheduleReconnect();
+        },
+        onerror: (e) => {
+          if (sessionPromiseRef.current !== sessionPromise) return;
+          console.error("Uplink error:", e);
+          scheduleReconnect();
+        }
+      }
+    });
+
+    sessionPromiseRef.current = sessionPromise;
+    sessionPromise.catch(err => {
+      if (sessionPromiseRef.current !== sessionPromise) return;
+      console.error("Error connecting uplink:", err);
+      if (err instanceof LiveTokenError) {
+        // Broker said no for good (no key, signed out, ...): retrying won't help
+        if (!err.retryable) {
+          setConnectionState(ConnectionState.ERROR);
+          setErrorMsg(err.code);
+          stopSession();
+          return;
+        }
+        setErrorMsg(err.code);
+      }
+      scheduleReconnect();
+    });
+  };
 
-            // Audio always comes from the mic stream (streamRef), even if screen sharing
-            const source = inputAudioContextRef.current.createMediaStreamSource(streamRef.current);
-            inputSourceRef.current = source;
-            
-            const processor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-            processorRef.current = processor;
-
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
+  // Typed turns go in as client content, with a local echo in the transcript
+  const handleSendText = (text: string) => {
+    if (!linkUpRef.current || !sessionPromiseRef.current) return;
+    setTranscript(prev => appendTypedTurn(prev, text));
+    sessionPromiseRef.current.then(session => session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text }] }],
+      turnComplete: true,
+    }));
+  };
 
-            source.connect(processor);
-            processor.connect(inputAudioContextRef.current.destination);
+  // --- Snapshots ---
+  // Frees the gallery's blob URLs; a new call or another operator starts with an empty one
+  const clearSnapshots = () => {
+    snapshotsRef.current.forEach(snapshot => URL.revokeObjectURL(snapshot.url));
+    snapshotsRef.current = [];
+    setSnapshots([]);
+  };
 
-            frameIntervalRef.current = window.setInterval(() => {
-                if (!videoRef.current || !canvasRef.current || !isVideoEnabled) return;
-                
-                const canvas = canvasRef.current;
-                const video = videoRef.current;
-                const ctx = canvas.getContext('2d');
-                if (!ctx) return;
+  // Freezes the frame the operator is looking at (filters and layout included) for annotation
+  const handleTakeSnapshot = () => {
+    if (!linkUpRef.current || !isVideoEnabledRef.current || snapshotFrame) return;
+    const current = currentFrameSource();
+    const frame = current && freezeFrame(current.source, current.filter);
+    if (!frame) {
+      setErrorMsg("SNAPSHOT_NO_FRAME");
+      return;
+    }
+    setSnapshotFrame(frame);
+  };
 
-                canvas.width = video.videoWidth;
-                canvas.height = video.videoHeight;
-                
-                // Only apply filters if not screen sharing (optional, but cleaner for screen sharing)
-                if (!isScreenSharing) {
-                    ctx.filter = activeFilterRef.current;
-                } else {
-                    ctx.filter = 'none';
-                }
-                
-                ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-                
-                canvas.toBlob(async (blob) => {
-                    if (blob) {
-                        const base64Data = await blobToBase64(blob);
-                        sessionPromise.then(session => {
-                            session.sendRealtimeInput({
-                                media: { data: base64Data, mimeType: 'image/jpeg' }
-                            });
-                        });
-                    }
-                }, 'image/jpeg', 0.6); 
-
-            }, 500); 
-          },
-          onmessage: async (message: LiveServerMessage) => {
-             const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-             if (base64Audio && outputAudioContextRef.current) {
-                setIsAiTalking(true);
-                setTimeout(() => setIsAiTalking(false), 500); 
-
-                const ctx = outputAudioContextRef.current;
-                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-                
-                try {
-                    const audioBuffer = await decodeAudioData(
-                        decode(base64Audio),
-                        ctx,
-                        24000,
-                        1
-                    );
-                    const source = ctx.createBufferSource();
-                    source.buffer = audioBuffer;
-                    source.connect(ctx.destination);
-                    source.addEventListener('ended', () => {
-                        sourcesRef.current.delete(source);
-                    });
-                    source.start(nextStartTimeRef.current);
-                    nextStartTimeRef.current += audioBuffer.duration;
-                    sourcesRef.current.add(source);
-                } catch (e) {
-                    console.error("Audio decode error", e);
-                }
-             }
-
-             const interrupted = message.serverContent?.interrupted;
-             if (interrupted) {
-                 sourcesRef.current.forEach(src => src.stop());
-                 sourcesRef.current.clear();
-                 nextStartTimeRef.current = 0;
-                 setIsAiTalking(false);
-             }
-          },
-          onclose: () => {
-            stopSession();
-          },
-          onerror: (e) => {
-            setErrorMsg("UPLINK_FAILURE_DETECTED");
-            stopSession();
-          }
-        }
+  // Sent as its own turn: a typed question completes it, otherwise Rinu waits for the spoken one
+  const handleSendSnapshot = async (marks: SnapshotMark[], crop: SnapshotRegion | null, question: string) => {
+    const frame = snapshotFrame;
+    setSnapshotFrame(null);
+    if (!frame || !linkUpRef.current || !sessionPromiseRef.current) return;
+    try {
+      const { blob, width, height } = await renderSnapshot(frame, marks, crop, themeColorRef.current);
+      const data = await blobToBase64(blob);
+      if (!linkUpRef.current || !sessionPromiseRef.current) return;
+      const session = await sessionPromiseRef.current;
+      session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ inlineData: { mimeType: 'image/jpeg', data } }, { text: snapshotPrompt(question, marks.length > 0) }] }],
+        turnComplete: !!question,
       });
+      setTranscript(prev => appendTypedTurn(prev, question || t('snapshot.askedByVoice'), 'snapshot'));
+      setSnapshots(prev => [...prev, {
+        id: createLocalId('snapshot'),
+        takenAt: Date.now(),
+        question,
+        url: URL.createObjectURL(blob),
+        width,
+        height,
+      }]);
+    } catch (err) {
+      console.error("Error sending snapshot:", err);
+      setErrorMsg("SNAPSHOT_FAILED");
+    }
+  };
 
-      sessionPromiseRef.current = sessionPromise;
+  // (Re)start mic capture on a stream; replaces any capture already running
+  const startAudioUplink = (stream: MediaStream) => {
+    if (audioCaptureRef.current) {
+      audioCaptureRef.current.stop();
+      audioCaptureRef.current = null;
+    }
+    startAudioCapture(stream, {
+      chunkSize: captureChunkSize,
+      onChunk: handleMicChunk,
+    }).then(capture => {
+      // Call may have ended, or the stream been swapped, while the worklet was loading
+      if (!callActiveRef.current || streamRef.current !== stream) {
+        capture.stop();
+        return;
+      }
+      audioCaptureRef.current = capture;
+      setMicAnalyser(capture.analyser);
+    }).catch(err => {
+      console.error("Error starting audio capture:", err);
+      setErrorMsg("AUDIO_CAPTURE_FAILURE");
+    });
+  };
 
+  const startMediaUplink = () => {
+    // Audio always comes from the mic stream (streamRef), even if screen sharing
+    if (streamRef.current) startAudioUplink(streamRef.current);
+
+    // Upload resolution, rate and change gating are independent of the camera VideoQuality
+    const sampler = createFrameSampler(frameSettings);
+    let tick = 0;
+    frameIntervalRef.current = window.setInterval(async () => {
+        if (!linkUpRef.current || !canvasRef.current || !isVideoEnabledRef.current) return;
+
+        const current = uplinkFrameSource(tick++);
+        if (!current) return;
+        const frame = await sampler.sample(current.source, canvasRef.current, current.filter, current.stream);
+        setUplinkStats(sampler.getStats());
+        if (!frame) return;
+
+        const base64Data = await blobToBase64(frame.blob);
+        sendRealtimeMedia({ data: base64Data, mimeType: 'image/jpeg' });
+    }, 1000 / frameSettings.frameRate);
+  };
+
+  const startSession = async () => {
+    const configError = liveTransport.configError();
+    if (configError) {
+        setErrorMsg(configError);
+        return;
+    }
+
+    setConnectionState(ConnectionState.CONNECTING);
+    setErrorMsg(null);
+    setTranscript([]);
+    setReviewedSession(null);
+    setToolLog([]);
+    clearSnapshots();
+    cancelledToolCallsRef.current.clear();
+    sessionRecordRef.current = {
+        id: createSessionId(),
+        operator: storedPhone,
+        startedAt: Date.now(),
+        videoQuality,
+        filter: activeFilter.name,
+        screenShareIntervals: isScreenSharing ? [{ start: Date.now() }] : [],
+        turns: [],
+    };
+    callActiveRef.current = true;
+    micModeRef.current = micMode;
+    voiceGateRef.current = micMode === 'vad'
+      ? createVoiceGate({
+          sampleRate: CAPTURE_SAMPLE_RATE,
+          onSpeechStart: () => setIsVoiceActive(true),
+          onSpeechEnd: () => {
+            setIsVoiceActive(false);
+            // Let the model close the turn now rather than wait on silence that never arrives
+            sendActivitySignal({ audioStreamEnd: true });
+          },
+        })
+      : null;
+    resumeHandleRef.current = undefined;
+    reconnectAttemptRef.current = 0;
+
+    try {
+      setPlaybackUnderruns(0);
+      const playback = new PlaybackEngine({
+        jitterBufferMs,
+        volume: playbackVolume,
+        onUnderrun: count => {
+          console.warn(`Playback underrun #${count}`);
+          setPlaybackUnderruns(count);
+        },
+      });
+      playbackRef.current = playback;
+      // The HUD reacts to what Rinu actually says
+      setOutputAnalyser(playback.analyser);
+      if (deviceSelection.speakerId) {
+        const missing = findMissingDevices(deviceSelection, deviceLists).includes('speaker');
+        if (missing) setErrorMsg("SPEAKER_DEVICE_MISSING");
+        else applySpeaker(playback.context, deviceSelection.speakerId).catch(err => {
+          console.error("Error selecting speaker:", err);
+          setErrorMsg("SPEAKER_SWITCH_FAILED");
+        });
+      }
+      startMediaUplink();
+      connectLive();
     } catch (err) {
       setConnectionState(ConnectionState.ERROR);
       setErrorMsg("CONNECTION_FAILED_RETRY");
@@ -542,7 +1675,7 @@ const App: React.FC = () => {
   };
 
   const handleToggleCall = () => {
-    if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING) {
+    if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING || connectionState === ConnectionState.RECONNECTING) {
       stopSession();
     } else {
       startSession();
@@ -566,15 +1699,141 @@ const App: React.FC = () => {
     setVideoQuality(e.target.value as VideoQuality);
   };
 
+  // Push-to-talk: hold Space (outside text fields) or the on-screen button
+  const isLive = connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING;
+  useEffect(() => {
+    if (!isLive || micMode !== 'ptt') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== PTT_KEY || e.repeat || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      startPushToTalk();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === PTT_KEY) endPushToTalk();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', endPushToTalk);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', endPushToTalk);
+    };
+  }, [isLive, micMode]);
+
+  // A snapshot can't outlive the call it would be sent into
+  useEffect(() => {
+    if (!isLive) setSnapshotFrame(null);
+  }, [isLive]);
+
+  // --- Hotkeys ---
+  // Reassigned every render so the listener below always calls the current handlers
+  const hotkeyHandlersRef = useRef<Record<HotkeyAction, () => void> | null>(null);
+  hotkeyHandlersRef.current = {
+    openPalette: () => setIsPaletteOpen(open => !open),
+    toggleCall: handleToggleCall,
+    toggleMute,
+    toggleVideo: () => setIsVideoEnabled(enabled => !enabled),
+    toggleScreenShare,
+    toggleFilters: () => { if (filtersAvailable) setShowFilters(show => !show); },
+    togglePiP: handleTogglePiP,
+    toggleRecording: handleToggleRecording,
+    takeSnapshot: handleTakeSnapshot,
+    toggleSidebar: () => setIsSidebarOpen(open => !open),
+  };
+
+  // While a modal is up only the hotkey that closes the topmost one gets through; the
+  // snapshot editor has none and closes with Escape
+  const isModalOpen = isPaletteOpen || !!snapshotFrame || isSidebarOpen;
+  const closingHotkey: HotkeyAction | null = isPaletteOpen ? 'openPalette' : snapshotFrame ? null : isSidebarOpen ? 'toggleSidebar' : null;
+
+  // Typing never triggers a hotkey, except the one that opens (and closes) the palette
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat) return;
+      const combo = comboFromEvent(e);
+      const action = combo ? actionForCombo(keymap, combo) : null;
+      if (!action || (isModalOpen && action !== closingHotkey)) return;
+      if (action !== 'openPalette' && isTypingTarget(e.target)) return;
+      e.preventDefault();
+      hotkeyHandlersRef.current?.[action]();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isAuthenticated, keymap, isModalOpen, closingHotkey]);
+
+  // The sidebar is modal: Tab stays inside it and Escape closes it
+  const sidebarRef = useRef<HTMLDivElement>(null);
+  const handleSidebarKeyDown = useFocusTrap(sidebarRef, isSidebarOpen, () => setIsSidebarOpen(false));
+
+  const handleDeviceSelectionChange = (selection: MediaDeviceSelection) => {
+    const previous = deviceSelectionRef.current;
+    deviceSelectionRef.current = selection;
+    setDeviceSelection(selection);
+    if (storedPhone) setProfileSetting(storedPhone, 'devices', selection);
+
+    if (selection.cameraId !== previous.cameraId || selection.micId !== previous.micId) {
+      startCamera(videoQuality, true);
+    }
+    if (selection.speakerId !== previous.speakerId && playbackRef.current) {
+      applySpeaker(playbackRef.current.context, selection.speakerId).catch(err => {
+        console.error("Error switching speaker:", err);
+        setErrorMsg("SPEAKER_SWITCH_FAILED");
+      });
+    }
+  };
+
+  // Hot-plug: follow the OS default when nothing is pinned, fall back when a pinned device
+  // goes away, and switch back once it returns. Only the local streams restart.
+  useEffect(() => {
+    if (!isAuthenticated || !navigator.mediaDevices) return;
+    const handleDeviceChange = async () => {
+      const lists = await listMediaDevices();
+      setDeviceLists(lists);
+
+      const selection = deviceSelectionRef.current;
+      const missing = findMissingDevices(selection, lists);
+      const wanted = clearDevices(selection, missing);
+      const active = activeInputsRef.current;
+      const signatures = { camera: defaultDeviceSignature(lists, 'camera'), mic: defaultDeviceSignature(lists, 'mic') };
+      const defaultMoved =
+        (!wanted.cameraId && signatures.camera !== defaultSignaturesRef.current.camera) ||
+        (!wanted.micId && signatures.mic !== defaultSignaturesRef.current.mic);
+      defaultSignaturesRef.current = signatures;
+
+      if (missing.length) {
+        setErrorMsg(missing.map(kind => `${kind.toUpperCase()}_DEVICE_DISCONNECTED`).join(' / '));
+      }
+      if (missing.includes('speaker') && playbackRef.current) {
+        applySpeaker(playbackRef.current.context, '').catch(err => console.error("Error resetting speaker:", err));
+      }
+      if (wanted.cameraId !== active.cameraId || wanted.micId !== active.micId || defaultMoved) {
+        startCamera(videoQuality, true);
+      }
+    };
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [isAuthenticated, videoQuality]);
+
   // --- Render Auth Screen ---
   if (!isAuthenticated) {
     return (
         <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
             {/* Background elements */}
-            <div className={`absolute inset-0 bg-black ${showGrid ? 'bg-grid' : ''} z-0`}></div>
+            <div className={`absolute inset-0 theme-page ${showGrid ? 'bg-grid' : ''} z-0`}></div>
             {showScanlines && <div className="scanlines"></div>}
             
             <div className="w-full max-w-md bg-black border theme-border p-8 relative z-10 theme-shadow border-glow">
+                {/* Language switcher */}
+                <select
+                    value={language}
+                    onChange={e => setLanguage(e.target.value as UiLanguage)}
+                    className="absolute top-3 right-3 bg-black theme-text text-[10px] border theme-border px-1 py-0.5 outline-none cursor-pointer"
+                >
+                    {UI_LANGUAGES.map(lang => <option key={lang.id} value={lang.id}>{lang.label}</option>)}
+                </select>
+
                 {/* Decorative corners */}
                 <div className="absolute -top-1 -left-1 w-4 h-4 border-t-2 border-l-2 theme-border"></div>
                 <div className="absolute -top-1 -right-1 w-4 h-4 border-t-2 border-r-2 theme-border"></div>
@@ -585,24 +1844,23 @@ const App: React.FC = () => {
                     <div className="w-20 h-20 border theme-border flex items-center justify-center mb-4 theme-bg-dim animate-pulse">
                         <LockClosedIcon className="w-10 h-10 theme-text" />
                     </div>
-                    <h1 className="text-3xl font-bold theme-text tracking-widest text-glow">RINU_SYSTEM</h1>
+                    <h1 className="text-3xl font-bold theme-text tracking-widest text-glow">{t('auth.title')}</h1>
                     <p className="theme-text opacity-70 text-sm mt-2 text-center font-mono">
-                        {authStep === 'phone' ? ">> AUTHENTICATION_REQUIRED <<" : ">> AWAITING_ACCESS_CODE <<"}
+                        {`>> ${t(authStep === 'phone' ? 'auth.required' : 'auth.awaitingCode')} <<`}
                     </p>
                 </div>
 
                 {authStep === 'phone' ? (
                     <form onSubmit={handleSendOtp} className="space-y-6">
                         <div>
-                            <label className="block text-xs theme-text uppercase tracking-wider mb-2">[ DEVICE_ID ]</label>
+                            <label className="block text-xs theme-text uppercase tracking-wider mb-2">[ {t('auth.deviceId')} ]</label>
                             <div className="flex space-x-0 border theme-border">
                                 <select
                                     value={countryCode}
                                     onChange={(e) => setCountryCode(e.target.value)}
                                     className="bg-black theme-text px-3 py-3 outline-none border-r theme-border cursor-pointer text-sm font-bold uppercase"
                                 >
-                                    <option value="+880">BD +880</option>
-                                    <option value="+91">IN +91</option>
+                                    {COUNTRY_CODES.map(country => <option key={country.code} value={country.code}>{country.label}</option>)}
                                 </select>
                                 <input 
                                     type="tel" 
@@ -620,10 +1878,10 @@ const App: React.FC = () => {
                             className="w-full theme-bg-dim hover:brightness-110 border theme-border theme-text font-bold py-3 px-4 transition-all flex items-center justify-center hover:theme-shadow disabled:opacity-50"
                         >
                             {isAuthLoading ? (
-                                <span className="animate-pulse">>> PROCESSING...</span>
+                                <span className="animate-pulse">{'>> '}{t('auth.processing')}</span>
                             ) : (
                                 <>
-                                    <span>INITIATE_HANDSHAKE</span>
+                                    <span>{t('auth.initiate')}</span>
                                     <ArrowRightIcon className="w-4 h-4 ml-2" />
                                 </>
                             )}
@@ -632,13 +1890,15 @@ const App: React.FC = () => {
                 ) : (
                     <form onSubmit={handleVerifyOtp} className="space-y-6">
                         <div>
-                            <label className="block text-xs theme-text uppercase tracking-wider mb-2">[ ENCRYPTION_KEY ]</label>
+                            <label className="block text-xs theme-text uppercase tracking-wider mb-2">[ {t('auth.encryptionKey')} ]</label>
                             <input 
                                 type="text" 
                                 value={otpInput}
                                 onChange={(e) => setOtpInput(e.target.value)}
                                 placeholder="******"
-                                maxLength={6}
+                                maxLength={otpChallenge?.codeLength ?? 6}
+                                inputMode="numeric"
+                                autoComplete="one-time-code"
                                 className="w-full bg-black border theme-border px-4 py-3 theme-text placeholder-opacity-50 outline-none text-center tracking-[0.5em] text-xl font-bold focus:theme-shadow"
                                 required
                             />
@@ -649,24 +1909,45 @@ const App: React.FC = () => {
                             className="w-full theme-bg hover:brightness-110 text-black font-bold py-3 px-4 transition-all flex items-center justify-center hover:theme-shadow disabled:opacity-50"
                         >
                             {isAuthLoading ? (
-                                <span className="animate-pulse">>> DECRYPTING...</span>
+                                <span className="animate-pulse">{'>> '}{t('auth.decrypting')}</span>
                             ) : (
-                                "ACCESS_SYSTEM"
+                                t('auth.access')
                             )}
                         </button>
                         <button 
                             type="button"
-                            onClick={() => { setAuthStep('phone'); setErrorMsg(null); }}
+                            onClick={requestOtp}
+                            disabled={isAuthLoading || resendCountdown > 0}
+                            className="w-full border theme-border theme-text text-xs py-2 uppercase tracking-wide hover:theme-bg-dim disabled:opacity-40"
+                        >
+                            {resendCountdown > 0 ? t('auth.resendIn', { seconds: resendCountdown }) : t('auth.resend')}
+                        </button>
+                        <button 
+                            type="button"
+                            onClick={() => { setAuthStep('phone'); setOtpInput(''); setErrorMsg(null); }}
                             className="w-full theme-text opacity-60 hover:opacity-100 text-xs py-2 uppercase tracking-wide hover:underline"
                         >
-                            [ ABORT_SEQUENCE ]
+                            [ {t('auth.abort')} ]
                         </button>
                     </form>
                 )}
                 
+                {authStep === 'phone' && profiles.length > 0 && (
+                    <div className="mt-6">
+                        <label className="block text-xs theme-text uppercase tracking-wider mb-2">[ {t('profiles.known')} ]</label>
+                        <ProfileSwitcher
+                          profiles={profiles}
+                          activePhone=""
+                          disabled={isAuthLoading}
+                          onSwitch={handleSwitchProfile}
+                          onForget={handleForgetProfile}
+                        />
+                    </div>
+                )}
+
                 {errorMsg && (
-                    <div className="mt-6 p-2 bg-red-900/20 border border-red-500 text-red-500 text-xs text-center font-mono">
-                        >> ERROR: {errorMsg}
+                    <div role="alert" className="mt-6 p-2 bg-red-900/20 border border-red-500 text-red-500 text-xs text-center font-mono">
+                        {'>> '}{t('auth.errorPrefix')}: {i18n.error(errorMsg)}
                     </div>
                 )}
             </div>
@@ -675,7 +1956,9 @@ const App: React.FC = () => {
   }
 
   // --- Main App Logic ---
-  const isConnected = connectionState === ConnectionState.CONNECTED;
+  // Keep the full-screen layout while the uplink is being restored
+  const isConnected = connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING;
+  const isReconnecting = connectionState === ConnectionState.RECONNECTING;
   const containerClass = isConnected 
     ? "fixed inset-0 w-full h-full bg-black z-50 flex flex-col"
     : "w-full max-w-4xl relative aspect-video bg-black border theme-border theme-shadow relative z-10";
@@ -684,9 +1967,46 @@ const App: React.FC = () => {
     ? "absolute bottom-8 left-0 right-0 flex flex-col items-center space-y-4"
     : "mt-8 flex flex-col items-center space-y-4 relative z-10";
 
+  // --- Command Palette ---
+  const activeHint = t('palette.active');
+  const paletteCommands: PaletteCommand[] = [
+    ...HOTKEY_ACTIONS.filter(action => action !== 'openPalette').map(action => ({
+      id: `action-${action}`,
+      group: t('palette.action'),
+      label: t(HOTKEY_LABELS[action]),
+      hint: keymap[action],
+      run: () => hotkeyHandlersRef.current?.[action](),
+    })),
+    ...[...BUILTIN_FILTERS, ...customFilters.map(presetToFilter)].map(filter => ({
+      id: `filter-${filter.id}`,
+      group: t('palette.filter'),
+      label: filter.name,
+      hint: activeFilter.id === filter.id ? activeHint : undefined,
+      disabled: !filtersAvailable,
+      run: () => setActiveFilter(filter),
+    })),
+    ...allThemes.map(theme => ({
+      id: `theme-${theme.id}`,
+      group: t('palette.theme'),
+      label: theme.name,
+      hint: themeId === theme.id ? activeHint : undefined,
+      disabled: !!previewTheme,
+      run: () => setThemeId(theme.id),
+    })),
+    ...QUALITY_OPTIONS.map(option => ({
+      id: `quality-${option.value}`,
+      group: t('palette.quality'),
+      label: t(option.labelKey),
+      hint: videoQuality === option.value ? activeHint : undefined,
+      disabled: isConnected,
+      run: () => setVideoQuality(option.value),
+    })),
+  ];
+
   return (
-    <div className={`min-h-screen bg-black flex flex-col items-center justify-center ${!isConnected ? 'p-4' : ''}`}>
-        <div className={`absolute inset-0 bg-black ${showGrid ? 'bg-grid' : ''} z-0`}></div>
+    <I18nContext.Provider value={i18n}>
+    <div className={`min-h-screen theme-page flex flex-col items-center justify-center ${!isConnected ? 'p-4' : ''}`}>
+        <div className={`absolute inset-0 theme-page ${showGrid ? 'bg-grid' : ''} z-0`}></div>
         {showScanlines && <div className="scanlines"></div>}
       
       {/* Wrapper to handle Fullscreen vs Card layout */}
@@ -701,27 +2021,90 @@ const App: React.FC = () => {
              {isConnected && <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-64 h-64 border theme-border opacity-20 rounded-full"></div>}
         </div>
 
+        {/* Rinu Output Visualizer (centered on the HUD ring); a still ring under reduced motion */}
+        {isConnected && reduceMotion && (
+            <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 pointer-events-none z-10 flex items-center justify-center w-64 h-64">
+                <div className={`w-48 h-48 rounded-full border-4 theme-border ${isAiTalking ? 'theme-bg-dim' : 'opacity-30'}`} aria-hidden="true"></div>
+            </div>
+        )}
+        {isConnected && !reduceMotion && (
+            <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 pointer-events-none z-10 flex items-center justify-center w-80 h-80">
+                <Visualizer
+                    isPlaying={isAiTalking}
+                    analyser={outputAnalyser}
+                    variant={visualizerStyle}
+                    width={visualizerStyle === 'ring' ? 320 : 256}
+                    height={visualizerStyle === 'ring' ? 320 : 64}
+                />
+            </div>
+        )}
+
         {/* Top Bar with Menu & Indicators */}
         <div className="absolute top-6 left-6 z-20 flex space-x-2">
             {/* Sidebar Toggle */}
             <button 
                 onClick={() => setIsSidebarOpen(true)}
                 className="bg-black/80 border theme-border p-2 flex items-center justify-center backdrop-blur-sm theme-text hover:theme-bg-dim transition-colors"
-                title="MENU"
+                title={t('hud.menu')}
+                aria-label={t('hud.menu')}
+                aria-haspopup="dialog"
             >
                 <Bars3Icon className="w-5 h-5" />
             </button>
 
             {/* Status Indicators */}
             {isConnected && (
+                <div className={`bg-red-900/20 border border-red-500 px-3 py-1 flex items-center ${isReconnecting ? 'opacity-50' : ''}`}>
+                     <div className={`w-2 h-2 bg-red-500 rounded-full mr-2 ${isReconnecting ? '' : 'animate-ping'}`}></div>
+                     <span className="text-red-500 text-xs font-bold uppercase tracking-wider">{t('hud.live')}</span>
+                </div>
+            )}
+            {isReconnecting && (
+                <div className="bg-yellow-900/20 border border-yellow-500 px-3 py-1 flex items-center">
+                     <span className="text-yellow-500 text-xs font-bold uppercase tracking-wider animate-pulse">
+                        {reconnectCountdown ? t('hud.reconnectingIn', { seconds: reconnectCountdown }) : t('hud.reconnecting')}
+                        {reconnectAttempt > 0 && ` [${i18n.formatNumber(reconnectAttempt)}/${i18n.formatNumber(RECONNECT_MAX_ATTEMPTS)}]`}
+                     </span>
+                </div>
+            )}
+            {isConnected && isMuted && (
                 <div className="bg-red-900/20 border border-red-500 px-3 py-1 flex items-center">
-                     <div className="w-2 h-2 bg-red-500 rounded-full animate-ping mr-2"></div>
-                     <span className="text-red-500 text-xs font-bold uppercase tracking-wider">LIVE</span>
+                     <MicrophoneSlashIcon className="w-4 h-4 text-red-500 mr-2" />
+                     <span className="text-red-500 text-xs font-bold uppercase tracking-wider">{t('hud.muted')}</span>
+                </div>
+            )}
+            {isConnected && micAnalyser && !isMuted && (
+                <div
+                    className={`border theme-border px-2 py-1 flex items-center ${micMode === 'always' || isVoiceActive ? 'theme-bg-dim' : 'bg-black/60 opacity-60'}`}
+                    title={t(micMode === 'always' ? 'hud.micLevel' : isVoiceActive ? 'hud.transmitting' : 'hud.micGated')}
+                >
+                     <span className="theme-text text-xs font-bold uppercase tracking-wider mr-2">{micMode === 'always' ? t('hud.mic') : micMode.toUpperCase()}</span>
+                     {!reduceMotion && <Visualizer isPlaying analyser={micAnalyser} variant={visualizerStyle === 'waveform' ? 'waveform' : 'bars'} width={64} height={16} />}
+                </div>
+            )}
+            {isConnected && uplinkStats && (
+                <div className="bg-black/60 border theme-border px-3 py-1 flex items-center" title={t('hud.framesSent', { sent: uplinkStats.sent, skipped: uplinkStats.skipped })}>
+                     <span className="theme-text text-xs font-bold uppercase tracking-wider">
+                        {t('hud.tx', { kbps: Math.round(uplinkStats.kbps) })}{uplinkStats.level > 0 && ` L-${uplinkStats.level}`}
+                     </span>
+                </div>
+            )}
+            {isConnected && playbackUnderruns > 0 && (
+                <div className="bg-yellow-900/20 border border-yellow-500 px-3 py-1 flex items-center" title={t('hud.underruns')}>
+                     <span className="text-yellow-500 text-xs font-bold uppercase tracking-wider">{t('hud.rxGap', { count: playbackUnderruns })}</span>
+                </div>
+            )}
+            {recordingStartedAt !== null && (
+                <div className="bg-red-900/20 border border-red-500 px-3 py-1 flex items-center">
+                     <div className="w-2 h-2 bg-red-500 rounded-full mr-2 animate-pulse"></div>
+                     <span className="text-red-500 text-xs font-bold uppercase tracking-wider">
+                        {t('hud.rec')} {i18n.formatNumber(Math.floor(recordingElapsed / 60))}:{i18n.formatNumber(recordingElapsed % 60, { minimumIntegerDigits: 2 })}
+                     </span>
                 </div>
             )}
              {isScreenSharing && (
                 <div className="bg-blue-900/20 border border-blue-500 px-3 py-1 flex items-center">
-                     <span className="text-blue-500 text-xs font-bold uppercase tracking-wider">SCREEN</span>
+                     <span className="text-blue-500 text-xs font-bold uppercase tracking-wider">{t('hud.screen')}</span>
                 </div>
             )}
         </div>
@@ -731,7 +2114,9 @@ const App: React.FC = () => {
             <button 
                 onClick={() => setIsSidebarOpen(true)}
                 className={`border p-2 flex items-center justify-center transition-all hover:theme-shadow ${isConnected ? 'bg-black/50 theme-border theme-text' : 'bg-black theme-border theme-text'}`}
-                title="USER_PROFILE"
+                title={t('hud.profile')}
+                aria-label={t('hud.profile')}
+                aria-haspopup="dialog"
             >
                 {userName ? (
                    <span className="w-4 h-4 font-bold text-xs flex items-center justify-center">{userName.charAt(0).toUpperCase()}</span>
@@ -747,15 +2132,34 @@ const App: React.FC = () => {
             autoPlay 
             playsInline 
             muted 
-            style={{ filter: activeFilter }}
-            className={`w-full h-full transition-all duration-300 ${isVideoEnabled ? 'opacity-100' : 'opacity-0'} ${isScreenSharing ? 'object-contain' : 'object-cover transform scale-x-[-1]'}`}
+            style={{ filter: isScreenSharing ? 'none' : activeFilter.css }}
+            className={`w-full h-full transition-all duration-300 ${isVideoEnabled && !previewCanvas ? 'opacity-100' : 'opacity-0'} ${isScreenSharing ? 'object-contain' : 'object-cover transform scale-x-[-1]'}`}
+        />
+
+        {/* Camera feed for the screen share inset */}
+        <video ref={cameraVideoRef} autoPlay playsInline muted className="absolute w-px h-px opacity-0 pointer-events-none" />
+
+        {/* Shader Filter Output (same canvas the uplink samples) */}
+        <canvas
+            ref={shaderCanvasRef}
+            className={`absolute inset-0 w-full h-full object-cover transform scale-x-[-1] pointer-events-none ${previewCanvas === 'shader' ? '' : 'hidden'}`}
+        />
+
+        {/* Screen + Camera Inset Composite (draggable inset) */}
+        <canvas
+            ref={compositeCanvasRef}
+            onPointerDown={handleInsetPointerDown}
+            onPointerMove={handleInsetPointerMove}
+            onPointerUp={handleInsetPointerUp}
+            onPointerCancel={handleInsetPointerUp}
+            className={`absolute inset-0 w-full h-full object-contain touch-none ${previewCanvas === 'composite' ? '' : 'hidden'}`}
         />
           
         {/* Fallback for disabled video */}
         {!isVideoEnabled && (
-            <div className={`absolute inset-0 flex items-center justify-center bg-black ${showGrid ? 'bg-grid' : ''}`}>
+            <div className={`absolute inset-0 flex items-center justify-center theme-page ${showGrid ? 'bg-grid' : ''}`}>
                 <div className="w-24 h-24 border-2 theme-border flex items-center justify-center relative">
-                    <span className="text-xl font-bold theme-text animate-pulse">NO_SIGNAL</span>
+                    <span className="text-xl font-bold theme-text animate-pulse">{t('hud.noSignal')}</span>
                     <div className="absolute inset-0 theme-bg opacity-10"></div>
                 </div>
             </div>
@@ -764,8 +2168,24 @@ const App: React.FC = () => {
         {/* Hidden Canvas for Frame Capture */}
         <canvas ref={canvasRef} className="hidden" />
 
+        {/* Tool Activity & Timers */}
+        <ToolActivity invocations={isConnected ? toolLog : []} timers={activeTimers} />
+
+        {/* Live Transcript (Full-screen layout) */}
+        {isConnected && <TranscriptPanel turns={transcript} operatorName={userName} variant="overlay" />}
+
       </div>
 
+      {/* Live Transcript (Card layout) */}
+      {!isConnected && (
+        <TranscriptPanel
+            turns={transcript}
+            operatorName={userName}
+            variant="card"
+            title={reviewedSession ? t('hud.archive', { date: i18n.formatDateTime(reviewedSession.startedAt) }) : undefined}
+        />
+      )}
+
       {/* Sidebar Navigation */}
       {isSidebarOpen && (
           <div className="fixed inset-0 z-[100] flex">
@@ -773,16 +2193,25 @@ const App: React.FC = () => {
               <div 
                 className="absolute inset-0 bg-black/60 backdrop-blur-sm"
                 onClick={() => setIsSidebarOpen(false)}
+                aria-hidden="true"
               ></div>
               
               {/* Sidebar Content */}
-              <div className="relative w-80 h-full bg-black border-r theme-border theme-shadow flex flex-col p-6 animate-in slide-in-from-left duration-300">
+              <div
+                ref={sidebarRef}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="sidebar-title"
+                tabIndex={-1}
+                onKeyDown={handleSidebarKeyDown}
+                className="relative w-80 h-full theme-page border-r theme-border theme-shadow flex flex-col p-6 overflow-y-auto animate-in slide-in-from-left duration-300"
+              >
                   <div className="flex items-center justify-between mb-8">
-                      <h2 className="text-xl font-bold theme-text tracking-widest flex items-center">
+                      <h2 id="sidebar-title" className="text-xl font-bold theme-text tracking-widest flex items-center">
                           <CogIcon className="w-6 h-6 mr-2" />
-                          SETTINGS
+                          {t('settings.title')}
                       </h2>
-                      <button onClick={() => setIsSidebarOpen(false)} className="theme-text hover:opacity-70">
+                      <button onClick={() => setIsSidebarOpen(false)} className="theme-text hover:opacity-70" aria-label={t('common.close')}>
                           <XMarkIcon className="w-6 h-6" />
                       </button>
                   </div>
@@ -794,7 +2223,7 @@ const App: React.FC = () => {
                             {userName ? userName.charAt(0).toUpperCase() : <UserIcon className="w-6 h-6" />}
                         </div>
                         <div>
-                            <p className="theme-text font-bold">{userName || 'OPERATOR'}</p>
+                            <p className="theme-text font-bold">{userName || t('common.operator')}</p>
                             <p className="theme-text opacity-50 text-xs">{storedPhone}</p>
                         </div>
                       </div>
@@ -803,56 +2232,144 @@ const App: React.FC = () => {
                             value={userName} 
                             onChange={e => setUserName(e.target.value)}
                             className="w-full bg-black border-b theme-border py-1 theme-text text-sm focus:outline-none placeholder-opacity-30"
-                            placeholder="SET_ALIAS..."
+                            placeholder={t('settings.setAlias')}
                           />
                           <button type="submit" className="w-full theme-bg text-black font-bold text-xs py-2 uppercase tracking-wide hover:brightness-110">
-                              UPDATE_ID
+                              {t('settings.updateId')}
                           </button>
                       </form>
                   </div>
 
+                  {/* Operator Profiles */}
+                  <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <UserIcon className="w-4 h-4 mr-2" />
+                          {t('profiles.title')}
+                      </h3>
+                      <ProfileSwitcher
+                        profiles={profiles}
+                        activePhone={storedPhone}
+                        disabled={isConnected}
+                        onSwitch={handleSwitchProfile}
+                        onForget={handleForgetProfile}
+                      />
+                      {isConnected && <p className="text-red-500 text-[10px] mt-1">{t('profiles.locked')}</p>}
+                  </div>
+
+                  {/* Persona Section */}
+                  <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <SparklesIcon className="w-4 h-4 mr-2" />
+                          {t('settings.persona')}
+                      </h3>
+                      <PersonaSettings
+                        presets={personaPresets}
+                        persona={persona}
+                        isDirty={isPersonaDirty}
+                        disabled={isConnected}
+                        onSelect={handleSelectPersona}
+                        onChange={setPersona}
+                        onSaveAs={handleSavePersonaAs}
+                        onUpdate={handleUpdatePersona}
+                        onDelete={handleDeletePersona}
+                      />
+                  </div>
+
                   {/* Appearance Section */}
                   <div className="mb-8">
                       <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
                           <PaletteIcon className="w-4 h-4 mr-2" />
-                          APPEARANCE
+                          {t('settings.appearance')}
                       </h3>
                       
                       {/* Theme Colors */}
                       <div className="grid grid-cols-5 gap-2 mb-6">
-                          {THEMES.map((theme, idx) => (
+                          {allThemes.map(theme => (
                               <button
-                                key={theme.name}
-                                onClick={() => setThemeIndex(idx)}
-                                className={`w-10 h-10 rounded-full border-2 transition-all ${themeIndex === idx ? 'border-white scale-110 shadow-[0_0_10px_white]' : 'border-transparent opacity-70 hover:opacity-100 hover:scale-105'}`}
-                                style={{ backgroundColor: theme.color, boxShadow: themeIndex === idx ? `0 0 15px ${theme.color}` : 'none' }}
+                                key={theme.id}
+                                onClick={() => setThemeId(theme.id)}
+                                disabled={!!previewTheme}
+                                className={`w-10 h-10 rounded-full border-2 transition-all ${themeId === theme.id ? 'border-white scale-110 shadow-[0_0_10px_white]' : 'border-transparent opacity-70 hover:opacity-100 hover:scale-105'}`}
+                                style={{ backgroundColor: theme.color, boxShadow: themeId === theme.id ? `0 0 15px ${theme.color}` : 'none' }}
                                 title={theme.name}
+                                aria-label={theme.name}
+                                aria-pressed={themeId === theme.id}
                               ></button>
                           ))}
                       </div>
 
+                      {/* Theme Editor */}
+                      <div className="mb-6">
+                          <ThemeEditor
+                            activeTheme={activeTheme}
+                            customThemes={customThemes}
+                            onPreview={setPreviewTheme}
+                            onSave={handleSaveTheme}
+                            onDelete={handleDeleteTheme}
+                            onImport={handleImportThemes}
+                            onExport={exportThemes}
+                          />
+                      </div>
+
+                      {/* Visualizer Style */}
+                      <div className="mb-6">
+                          <label className="block theme-text text-[10px] opacity-60 uppercase mb-1">{t('settings.visualizer')}</label>
+                          <div className="grid grid-cols-3 gap-2">
+                              {VISUALIZER_STYLES.map(style => (
+                                  <button
+                                    key={style}
+                                    onClick={() => setVisualizerStyle(style)}
+                                    className={`py-1 border theme-border text-xs uppercase font-mono ${visualizerStyle === style ? 'theme-bg text-black' : 'theme-text hover:theme-bg-dim'}`}
+                                  >
+                                      {style}
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+
                       {/* Toggles */}
                       <div className="space-y-3">
-                        <label className="flex items-center justify-between cursor-pointer group">
-                            <span className="theme-text text-sm font-mono group-hover:text-white transition-colors">HACKER_GRID</span>
-                            <div className={`w-10 h-5 rounded-full relative transition-colors ${showGrid ? 'theme-bg' : 'bg-gray-800'}`} onClick={() => setShowGrid(!showGrid)}>
-                                <div className={`absolute top-1 w-3 h-3 rounded-full bg-black transition-all ${showGrid ? 'right-1' : 'left-1'}`}></div>
-                            </div>
-                        </label>
-                        <label className="flex items-center justify-between cursor-pointer group">
-                            <span className="theme-text text-sm font-mono group-hover:text-white transition-colors">SCANLINES</span>
-                            <div className={`w-10 h-5 rounded-full relative transition-colors ${showScanlines ? 'theme-bg' : 'bg-gray-800'}`} onClick={() => setShowScanlines(!showScanlines)}>
-                                <div className={`absolute top-1 w-3 h-3 rounded-full bg-black transition-all ${showScanlines ? 'right-1' : 'left-1'}`}></div>
-                            </div>
-                        </label>
+                        <Toggle label={t('settings.grid')} checked={showGrid} onChange={setShowGrid} />
+                        <Toggle label={t('settings.scanlines')} checked={showScanlines} onChange={setShowScanlines} />
                       </div>
                   </div>
 
+                   {/* Language */}
+                   <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <DocumentTextIcon className="w-4 h-4 mr-2" />
+                          {t('settings.language')}
+                      </h3>
+                      <select
+                        value={language}
+                        onChange={e => setLanguage(e.target.value as UiLanguage)}
+                        className="w-full bg-black border theme-border theme-text text-sm py-2 px-3 focus:outline-none"
+                      >
+                        {UI_LANGUAGES.map(lang => <option key={lang.id} value={lang.id}>{lang.label}</option>)}
+                      </select>
+                      <Toggle label={t('settings.replyInLanguage')} checked={replyInLanguage} onChange={setReplyInLanguage} className="mt-3" />
+                      {isConnected && <p className="text-red-500 text-[10px] mt-1">{t('settings.replyNextLink')}</p>}
+                   </div>
+
+                   {/* Filter Editor */}
+                   <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <SparklesIcon className="w-4 h-4 mr-2" />
+                          {t('settings.filterLab')}
+                      </h3>
+                      <FilterEditor
+                        presets={customFilters}
+                        onApply={setActiveFilter}
+                        onSave={handleSaveFilter}
+                        onDelete={handleDeleteFilter}
+                      />
+                   </div>
+
                    {/* Video Settings */}
                    <div className="mb-8">
                       <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
                           <SettingsIcon className="w-4 h-4 mr-2" />
-                          VIDEO_CONFIG
+                          {t('settings.videoConfig')}
                       </h3>
                       <select 
                         value={videoQuality}
@@ -860,17 +2377,166 @@ const App: React.FC = () => {
                         className="w-full bg-black border theme-border theme-text text-sm py-2 px-3 focus:outline-none"
                         disabled={isConnected} 
                       >
-                        <option value={VideoQuality.SD}>STANDARD (480p)</option>
-                        <option value={VideoQuality.HD}>HIGH_DEF (720p)</option>
-                        <option value={VideoQuality.UHD}>ULTRA_HD (2160p)</option>
+                        {QUALITY_OPTIONS.map(option => <option key={option.value} value={option.value}>{t(option.labelKey)}</option>)}
                       </select>
-                      {isConnected && <p className="text-red-500 text-[10px] mt-1">* Cannot change quality while live</p>}
+                      <FrameUploadControls settings={frameSettings} onChange={setFrameSettings} disabled={isConnected} />
+                      {isConnected && <p className="text-red-500 text-[10px] mt-1">{t('settings.videoLocked')}</p>}
+                   </div>
+
+                   {/* Screen Share */}
+                   <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <ScreenShareIcon className="w-4 h-4 mr-2" />
+                          {t('settings.screenShare')}
+                      </h3>
+                      <ScreenShareSettings layout={screenLayout} onChange={setScreenLayout} />
+                   </div>
+
+                   {/* Devices */}
+                   <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <VideoIcon className="w-4 h-4 mr-2" />
+                          {t('settings.devices')}
+                      </h3>
+                      <DeviceSettings
+                        devices={deviceLists}
+                        selection={deviceSelection}
+                        speakerSupported={supportsSpeakerSelection()}
+                        onChange={handleDeviceSelectionChange}
+                      />
+                   </div>
+
+                   {/* Audio Settings */}
+                   <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <SettingsIcon className="w-4 h-4 mr-2" />
+                          {t('settings.audioConfig')}
+                      </h3>
+                      <label className="block theme-text text-[10px] opacity-60 uppercase mb-1">{t('settings.uplinkChunk')}</label>
+                      <select
+                        value={captureChunkSize}
+                        onChange={e => setCaptureChunkSize(Number(e.target.value))}
+                        className="w-full bg-black border theme-border theme-text text-sm py-2 px-3 focus:outline-none"
+                        disabled={isConnected}
+                      >
+                        {CAPTURE_CHUNK_SIZES.map(size => (
+                          <option key={size} value={size}>{t('settings.chunkOption', { ms: Math.round(size / CAPTURE_SAMPLE_RATE * 1000), samples: size })}</option>
+                        ))}
+                      </select>
+                      <label className="block theme-text text-[10px] opacity-60 uppercase mb-1 mt-3">{t('settings.micMode')}</label>
+                      <select
+                        value={micMode}
+                        onChange={e => setMicMode(e.target.value as MicMode)}
+                        className="w-full bg-black border theme-border theme-text text-sm py-2 px-3 focus:outline-none"
+                        disabled={isConnected}
+                      >
+                        {MIC_MODES.map(mode => <option key={mode.value} value={mode.value}>{t(mode.labelKey)}</option>)}
+                      </select>
+                      <label className="block theme-text text-[10px] opacity-60 uppercase mb-1 mt-3">{t('settings.jitterBuffer')}</label>
+                      <select
+                        value={jitterBufferMs}
+                        onChange={e => setJitterBufferMs(Number(e.target.value))}
+                        className="w-full bg-black border theme-border theme-text text-sm py-2 px-3 focus:outline-none"
+                        disabled={isConnected}
+                      >
+                        {JITTER_BUFFER_OPTIONS_MS.map(ms => <option key={ms} value={ms}>{ms ? `${i18n.formatNumber(ms)} ms` : t('settings.off')}</option>)}
+                      </select>
+                      {isConnected && <p className="text-red-500 text-[10px] mt-1">{t('settings.audioLocked')}</p>}
+                      <Toggle label={t('settings.duckOnSpeech')} checked={duckOnSpeech} onChange={setDuckOnSpeech} className="mt-3" />
+                   </div>
+
+                   {/* Mission Notes */}
+                   <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <DocumentTextIcon className="w-4 h-4 mr-2" />
+                          {t('settings.missionNotes')}
+                      </h3>
+                      <MissionNotes
+                        notes={missionNotes}
+                        onAdd={addMissionNote}
+                        onDelete={id => setMissionNotes(prev => prev.filter(note => note.id !== id))}
+                        onClear={() => setMissionNotes([])}
+                      />
+                   </div>
+
+                   {/* Session History */}
+                   <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <ClockIcon className="w-4 h-4 mr-2" />
+                          {t('settings.sessionLog')}
+                      </h3>
+                      <SessionHistory
+                        sessions={sessions}
+                        onOpen={handleOpenSession}
+                        onDelete={handleDeleteSession}
+                        onExport={handleExportSession}
+                      />
+                   </div>
+
+                   {/* Recordings */}
+                   <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <FilmIcon className="w-4 h-4 mr-2" />
+                          {t('settings.recordings')}
+                      </h3>
+                      <RecordingList
+                        recordings={recordings}
+                        sessionIds={new Set(sessions.map(session => session.id))}
+                        onDownload={downloadRecording}
+                        onOpenTranscript={handleOpenRecordingTranscript}
+                        onDelete={handleDeleteRecording}
+                      />
+                   </div>
+
+                   {/* Snapshots */}
+                   <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <CameraIcon className="w-4 h-4 mr-2" />
+                          {t('snapshot.gallery')}
+                      </h3>
+                      <SnapshotGallery snapshots={snapshots} />
+                   </div>
+
+                   {/* Accessibility */}
+                   <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <UserIcon className="w-4 h-4 mr-2" />
+                          {t('a11y.title')}
+                      </h3>
+                      <div className="space-y-3">
+                        <Toggle label={t('a11y.highContrast')} checked={highContrast} onChange={setHighContrast} />
+                        <Toggle label={t('a11y.reduceMotion')} checked={reduceMotion} onChange={setForceReducedMotion} disabled={prefersReducedMotion} />
+                      </div>
+                      {prefersReducedMotion && <p className="theme-text opacity-50 text-[10px] mt-1">{t('a11y.systemReducedMotion')}</p>}
+                   </div>
+
+                   {/* Hotkeys */}
+                   <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <CogIcon className="w-4 h-4 mr-2" />
+                          {t('hotkeys.title')}
+                      </h3>
+                      <KeymapSettings keymap={keymap} onChange={setKeymap} />
+                   </div>
+
+                   {/* Settings Transfer */}
+                   <div className="mb-8">
+                      <h3 className="text-xs theme-text opacity-70 uppercase tracking-widest mb-4 flex items-center">
+                          <CogIcon className="w-4 h-4 mr-2" />
+                          {t('settingsFile.title')}
+                      </h3>
+                      <SettingsTransfer
+                        disabled={isConnected}
+                        onExport={() => exportSettings(storedPhone || null)}
+                        onImport={handleImportSettings}
+                      />
+                      {isConnected && <p className="text-red-500 text-[10px] mt-1">{t('settingsFile.locked')}</p>}
                    </div>
 
                   <div className="mt-auto">
                     <button onClick={handleLogout} className="w-full flex items-center justify-center text-red-500 hover:bg-red-900/20 py-3 border border-red-900/50 hover:border-red-500 transition-colors uppercase font-bold tracking-wider text-sm">
                         <ArrowRightOnRectangleIcon className="w-4 h-4 mr-2" />
-                        TERMINATE
+                        {t('settings.terminate')}
                     </button>
                   </div>
               </div>
@@ -880,15 +2546,18 @@ const App: React.FC = () => {
       {/* Controls Section */}
       <div className={controlsClass + (isConnected ? " z-50 pointer-events-auto" : "")}>
             
+            {/* Command Line (Connected only) */}
+            {isConnected && <CommandLine onSubmit={handleSendText} disabled={isReconnecting} />}
+
             {/* Filter Menu (Conditional) */}
-            {showFilters && !isScreenSharing && (
+            {showFilters && filtersAvailable && (
                 <div className="flex space-x-2 overflow-x-auto max-w-full pb-2 px-2 scrollbar-hide">
-                    {FILTERS.map((filter) => (
+                    {[...BUILTIN_FILTERS, ...customFilters.map(presetToFilter)].map((filter) => (
                         <button
-                            key={filter.name}
-                            onClick={() => setActiveFilter(filter.value)}
-                            className={`px-4 py-2 border text-xs font-bold font-mono transition-all uppercase ${
-                                activeFilter === filter.value 
+                            key={filter.id}
+                            onClick={() => setActiveFilter(filter)}
+                            className={`px-4 py-2 border text-xs font-bold font-mono transition-all uppercase whitespace-nowrap ${
+                                activeFilter.id === filter.id
                                 ? 'theme-bg text-black theme-border' 
                                 : 'bg-black theme-text theme-border hover:theme-bg-dim'
                             }`}
@@ -899,10 +2568,38 @@ const App: React.FC = () => {
                 </div>
             )}
 
+            {/* Push-to-Talk (Connected only) */}
+            {isConnected && micMode === 'ptt' && (
+                <button
+                    onPointerDown={startPushToTalk}
+                    onPointerUp={endPushToTalk}
+                    onPointerLeave={endPushToTalk}
+                    disabled={isMuted || isReconnecting}
+                    className={`px-8 py-2 border-2 font-bold text-xs uppercase tracking-widest select-none transition-all ${
+                        isVoiceActive ? 'theme-bg text-black theme-border theme-shadow' : 'bg-black theme-text theme-border hover:theme-bg-dim'
+                    } disabled:opacity-40`}
+                >
+                    {isVoiceActive ? `>> ${t('hud.transmitting')} <<` : t('controls.holdToTalk')}
+                </button>
+            )}
+
             {/* Main Controls Row */}
             <div className="flex items-center justify-center space-x-6">
+                <button 
+                    onClick={toggleMute}
+                    className={`p-4 border transition-all duration-200 ${isMuted ? 'bg-red-900/20 border-red-500 text-red-500 hover:bg-red-900/40' : 'bg-black theme-border theme-text hover:theme-shadow'}`}
+                    title={t(isMuted ? 'controls.unmute' : 'controls.mute')}
+                    aria-label={t('controls.mute')}
+                    aria-pressed={isMuted}
+                >
+                    {isMuted ? <MicrophoneSlashIcon className="w-6 h-6" /> : <MicrophoneIcon className="w-6 h-6" />}
+                </button>
+
                 <button 
                     onClick={() => setIsVideoEnabled(!isVideoEnabled)}
+                    title={t(isVideoEnabled ? 'controls.videoOff' : 'controls.videoOn')}
+                    aria-label={t('controls.videoOff')}
+                    aria-pressed={!isVideoEnabled}
                     className={`p-4 border transition-all duration-200 ${isVideoEnabled ? 'bg-black theme-border theme-text hover:theme-shadow' : 'bg-red-900/20 border-red-500 text-red-500 hover:bg-red-900/40'}`}
                 >
                     {isVideoEnabled ? <VideoIcon className="w-6 h-6" /> : <VideoSlashIcon className="w-6 h-6" />}
@@ -910,15 +2607,17 @@ const App: React.FC = () => {
 
                 <button 
                     onClick={handleToggleCall}
+                    title={t(connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR ? 'controls.call' : 'controls.hangUp')}
+                    aria-label={`${t(connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR ? 'controls.call' : 'controls.hangUp')} (${t(CONNECTION_LABELS[connectionState])})`}
                     className={`p-5 border-2 transform transition-all duration-200 hover:scale-105 ${
                         connectionState === ConnectionState.CONNECTED 
                         ? 'bg-red-600 border-red-600 text-black shadow-[0_0_20px_red]' 
-                        : connectionState === ConnectionState.CONNECTING
+                        : connectionState === ConnectionState.CONNECTING || connectionState === ConnectionState.RECONNECTING
                         ? 'bg-yellow-500 border-yellow-500 text-black animate-pulse'
                         : 'theme-bg theme-border text-black theme-shadow'
                     }`}
                 >
-                    {connectionState === ConnectionState.CONNECTED ? (
+                    {connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING ? (
                         <PhoneXMarkIcon className="w-8 h-8" />
                     ) : (
                         <PhoneIcon className="w-8 h-8" />
@@ -932,27 +2631,79 @@ const App: React.FC = () => {
                         ? 'theme-bg text-black theme-border theme-shadow' 
                         : 'bg-black theme-text theme-border hover:theme-bg-dim'
                     }`}
-                    title={isScreenSharing ? "STOP_SHARING" : "SHARE_SCREEN"}
+                    title={t(isScreenSharing ? 'controls.stopSharing' : 'controls.shareScreen')}
+                    aria-label={t('controls.shareScreen')}
+                    aria-pressed={isScreenSharing}
                 >
                     {isScreenSharing ? <StopScreenShareIcon className="w-6 h-6" /> : <ScreenShareIcon className="w-6 h-6" />}
                 </button>
 
                 <button 
-                    onClick={() => !isScreenSharing && setShowFilters(!showFilters)}
+                    onClick={() => setShowFilters(!showFilters)}
+                    title={t('controls.filters')}
+                    aria-label={t('controls.filters')}
+                    aria-expanded={showFilters && filtersAvailable}
                     className={`p-4 border theme-border transition-all duration-200 ${
-                        (showFilters || activeFilter !== 'none') && !isScreenSharing
+                        (showFilters || activeFilter.id !== NO_FILTER.id) && filtersAvailable
                         ? 'theme-bg-dim theme-text theme-shadow' 
                         : 'bg-black theme-text hover:theme-bg-dim'
-                    } ${isScreenSharing ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    disabled={isScreenSharing}
+                    } ${filtersAvailable ? '' : 'opacity-50 cursor-not-allowed'}`}
+                    disabled={!filtersAvailable}
                 >
                     <SparklesIcon className="w-6 h-6" />
                 </button>
 
-                 <button 
+                {isConnected && (
+                    <button 
+                        onClick={handleToggleRecording}
+                        className={`p-4 border transition-all duration-200 ${
+                            recordingStartedAt !== null
+                            ? 'bg-red-900/20 border-red-500 text-red-500 animate-pulse'
+                            : 'bg-black theme-text theme-border hover:theme-bg-dim'
+                        }`}
+                        title={t(recordingStartedAt !== null ? 'controls.stopRecording' : 'controls.record')}
+                        aria-label={t('controls.record')}
+                        aria-pressed={recordingStartedAt !== null}
+                    >
+                        <RecordIcon className="w-6 h-6" />
+                    </button>
+                )}
+
+                {isConnected && (
+                    <button
+                        onClick={handleTakeSnapshot}
+                        disabled={!isVideoEnabled || isReconnecting}
+                        className="p-4 border theme-border bg-black theme-text hover:theme-bg-dim transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={t('controls.snapshot')}
+                        aria-label={t('controls.snapshot')}
+                        aria-haspopup="dialog"
+                    >
+                        <CameraIcon className="w-6 h-6" />
+                    </button>
+                )}
+
+                 {isConnected && (
+                    <div className="flex items-center border theme-border bg-black px-3 py-4" title={t('controls.volume')}>
+                        <span className="theme-text text-[10px] font-bold mr-2">{t('controls.vol')}</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={playbackVolume}
+                            onChange={e => setPlaybackVolume(Number(e.target.value))}
+                            aria-label={t('controls.volume')}
+                            className="w-24 accent-current theme-text cursor-pointer"
+                        />
+                        <span className="theme-text text-[10px] font-mono ml-2 w-8 text-right">{i18n.formatNumber(playbackVolume, { style: 'percent' })}</span>
+                    </div>
+                )}
+
+                <button 
                     onClick={handleTogglePiP}
                     className={`p-4 border theme-border bg-black hover:theme-bg-dim theme-text transition-all`}
-                    title="Minimize"
+                    title={t('controls.minimize')}
+                    aria-label={t('controls.minimize')}
                 >
                     <PipIcon className="w-6 h-6" />
                 </button>
@@ -961,18 +2712,34 @@ const App: React.FC = () => {
 
       {/* Error Message */}
       {errorMsg && (
-            <div className={`mt-4 p-2 bg-red-900/80 border border-red-500 text-red-200 text-xs font-mono uppercase tracking-wide ${isConnected ? 'fixed top-24 z-50' : ''}`}>
-                >> ALERT: {errorMsg}
+            <div role="alert" className={`mt-4 p-2 bg-red-900/80 border border-red-500 text-red-200 text-xs font-mono uppercase tracking-wide ${isConnected ? 'fixed top-24 z-50' : ''}`}>
+                {'>> '}{t('hud.alert')}: {i18n.error(errorMsg)}
             </div>
       )}
 
+      {/* Screen reader announcements */}
+      <div className="sr-only" role="status" aria-live="polite">{t(CONNECTION_LABELS[connectionState])}</div>
+      <div className="sr-only" aria-live="polite">{isAiTalking ? t('a11y.rinuSpeaking') : ''}</div>
+
+      {snapshotFrame && (
+        <SnapshotEditor
+          frame={snapshotFrame}
+          color={displayedTheme.color}
+          onSend={handleSendSnapshot}
+          onCancel={() => setSnapshotFrame(null)}
+        />
+      )}
+
+      {isPaletteOpen && <CommandPalette commands={paletteCommands} onClose={() => setIsPaletteOpen(false)} />}
+
       {!isConnected && (
         <div className="mt-8 text-center theme-text opacity-40 text-[10px] font-mono tracking-[0.2em] relative z-10">
-           <p>SYSTEM_VERSION 2.0.5 | SECURE_CHANNEL</p>
-           <p className="mt-1">POWERED_BY_GEMINI_NEURAL_NET</p>
+           <p>{t('hud.version')}</p>
+           <p className="mt-1">{t(liveTransport.name === 'mock' ? 'hud.mockUplink' : 'hud.poweredBy')}</p>
         </div>
       )}
     </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,54 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useI18n } from '../services/i18n';
+
+interface CommandLineProps {
+  onSubmit: (text: string) => void;
+  disabled?: boolean;
+  prompt?: string;
+}
+
+const MAX_ROWS = 8;
+
+// Terminal-style text input: Enter sends, Shift+Enter adds a line, pasted logs keep their newlines
+export const CommandLine: React.FC<CommandLineProps> = ({ onSubmit, disabled, prompt = 'rinu@uplink:~$' }) => {
+  const { t } = useI18n();
+  const [value, setValue] = useState('');
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  const rows = Math.min(MAX_ROWS, Math.max(1, value.split('\n').length));
+
+  useEffect(() => {
+    if (!disabled) inputRef.current?.focus();
+  }, [disabled]);
+
+  const submit = () => {
+    if (!value.trim() || disabled) return;
+    onSubmit(value.replace(/\s+$/, ''));
+    setValue('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <div className={`w-full max-w-2xl bg-black/80 border theme-border flex items-start px-3 py-2 font-mono backdrop-blur-sm ${disabled ? 'opacity-50' : ''}`}>
+      <span className="theme-text text-xs mr-2 mt-0.5 whitespace-nowrap select-none">{prompt}</span>
+      <textarea
+        ref={inputRef}
+        value={value}
+        rows={rows}
+        onChange={e => setValue(e.target.value)}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        spellCheck={false}
+        placeholder={t(disabled ? 'controls.uplinkOffline' : 'controls.commandPlaceholder')}
+        className="flex-1 bg-transparent theme-text text-sm outline-none resize-none placeholder-opacity-30 leading-5"
+      />
+      <span className="theme-text text-[10px] opacity-40 ml-2 mt-1 select-none">{value.length ? `${value.length}c` : ''}</span>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useI18n } from '../services/i18n';
+import { fuzzyScore } from '../services/hotkeys';
+import { useFocusTrap } from '../services/accessibility';
+
+export interface PaletteCommand {
+  id: string;
+  group: string;
+  label: string;
+  hint?: string; // bound hotkey, current value...
+  disabled?: boolean;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 12;
+
+// Ctrl+K launcher: fuzzy search over group + label, arrows to pick, Enter runs, Esc closes
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const handleTrapKeyDown = useFocusTrap(dialogRef, true, onClose);
+
+  const results = useMemo(() => commands
+    .map(command => ({ command, score: fuzzyScore(query, `${command.group} ${command.label}`) }))
+    .filter((result): result is { command: PaletteCommand; score: number } => result.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS)
+    .map(result => result.command), [commands, query]);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  const run = (command: PaletteCommand | undefined) => {
+    if (!command || command.disabled) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelected(prev => (prev + step + results.length) % Math.max(1, results.length));
+    } else if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      run(results[selected]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/70 backdrop-blur-sm flex items-start justify-center pt-[15vh]" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('hotkeys.openPalette')}
+        onKeyDown={handleTrapKeyDown}
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-xl mx-4 bg-black border theme-border theme-shadow font-mono"
+      >
+        <div className="flex items-center px-3 py-2 border-b theme-border">
+          <span className="theme-text text-xs mr-2 select-none" aria-hidden="true">{'>'}</span>
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            spellCheck={false}
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="palette-results"
+            aria-activedescendant={results[selected] ? `palette-${results[selected].id}` : undefined}
+            aria-label={t('palette.placeholder')}
+            placeholder={t('palette.placeholder')}
+            className="flex-1 bg-transparent theme-text text-sm outline-none placeholder-opacity-30"
+          />
+        </div>
+        <ul id="palette-results" role="listbox" className="max-h-80 overflow-y-auto py-1">
+          {results.map((command, index) => (
+            <li key={command.id} id={`palette-${command.id}`} role="option" aria-selected={index === selected} aria-disabled={command.disabled}>
+              <button
+                onClick={() => run(command)}
+                onMouseEnter={() => setSelected(index)}
+                disabled={command.disabled}
+                tabIndex={-1}
+                className={`w-full flex items-center px-3 py-1.5 text-left text-xs ${index === selected ? 'theme-bg text-black' : 'theme-text'} disabled:opacity-40`}
+              >
+                <span className="w-20 opacity-60 uppercase text-[10px] shrink-0">{command.group}</span>
+                <span className="flex-1 truncate uppercase">{command.label}</span>
+                {command.hint && <span className="ml-2 opacity-60 text-[10px]">{command.hint}</span>}
+              </button>
+            </li>
+          ))}
+          {results.length === 0 && <li role="presentation" className="px-3 py-2 theme-text opacity-50 text-xs">{t('palette.empty')}</li>}
+        </ul>
+        <p className="px-3 py-1 border-t theme-border theme-text opacity-40 text-[10px]">{t('palette.hint')}</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { MediaDeviceSelection } from '../types';
+import { MediaDeviceLists } from '../services/mediaDevices';
+import { useI18n } from '../services/i18n';
+
+interface DeviceSettingsProps {
+  devices: MediaDeviceLists;
+  selection: MediaDeviceSelection;
+  speakerSupported: boolean;
+  onChange: (selection: MediaDeviceSelection) => void;
+}
+
+const selectClass = 'w-full bg-black border theme-border theme-text text-xs py-2 px-2 focus:outline-none';
+const labelClass = 'block theme-text text-[10px] opacity-60 uppercase mb-1';
+
+const DevicePicker: React.FC<{
+  label: string;
+  devices: MediaDeviceInfo[];
+  value: string;
+  disabled?: boolean;
+  onChange: (id: string) => void;
+}> = ({ label, devices, value, disabled, onChange }) => {
+  const { t } = useI18n();
+  // Keep a saved-but-unplugged device visible so the operator can see why it isn't used
+  const missing = value !== '' && !devices.some(d => d.deviceId === value);
+  return (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <select value={value} onChange={e => onChange(e.target.value)} className={selectClass} disabled={disabled}>
+        <option value="">{t('devices.systemDefault')}</option>
+        {devices.filter(d => d.deviceId !== 'default').map((device, i) => (
+          <option key={device.deviceId} value={device.deviceId}>{device.label || `${label} ${i + 1}`}</option>
+        ))}
+        {missing && <option value={value}>{t('devices.disconnected')}</option>}
+      </select>
+      {missing && <p className="text-red-500 text-[10px] mt-1">{t('devices.savedMissing')}</p>}
+    </div>
+  );
+};
+
+export const DeviceSettings: React.FC<DeviceSettingsProps> = ({ devices, selection, speakerSupported, onChange }) => {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-3">
+      <DevicePicker label={t('devices.camera')} devices={devices.cameras} value={selection.cameraId} onChange={cameraId => onChange({ ...selection, cameraId })} />
+      <DevicePicker label={t('devices.microphone')} devices={devices.mics} value={selection.micId} onChange={micId => onChange({ ...selection, micId })} />
+      <DevicePicker
+        label={t('devices.speaker')}
+        devices={devices.speakers}
+        value={selection.speakerId}
+        disabled={!speakerSupported}
+        onChange={speakerId => onChange({ ...selection, speakerId })}
+      />
+      {!speakerSupported && <p className="theme-text opacity-40 text-[10px]">{t('devices.speakerUnsupported')}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { FilterAdjustments, FilterPreset, ShaderEffect, VideoFilter } from '../types';
+import { ADJUSTMENT_CONTROLS, adjustmentsToCss, CUSTOM_FILTER_ID, DEFAULT_ADJUSTMENTS, presetToFilter } from '../services/filterPresets';
+import { SHADER_EFFECTS } from '../services/shaderFilters';
+import { useI18n } from '../services/i18n';
+
+interface FilterEditorProps {
+  presets: FilterPreset[];
+  onApply: (filter: VideoFilter) => void;
+  onSave: (name: string, adjustments: FilterAdjustments, shader: ShaderEffect | null) => FilterPreset;
+  onDelete: (id: string) => void;
+}
+
+const fieldClass = 'w-full bg-black border theme-border theme-text text-sm py-2 px-3 focus:outline-none';
+const labelClass = 'block theme-text text-[10px] opacity-60 uppercase mb-1';
+
+// Slider chain + optional shader pass; every change is applied to the live feed immediately
+export const FilterEditor: React.FC<FilterEditorProps> = ({ presets, onApply, onSave, onDelete }) => {
+  const { t } = useI18n();
+  const [adjustments, setAdjustments] = useState<FilterAdjustments>(DEFAULT_ADJUSTMENTS);
+  const [shader, setShader] = useState<ShaderEffect | null>(null);
+  const [selectedId, setSelectedId] = useState('');
+  const [newName, setNewName] = useState('');
+
+  const edit = (next: FilterAdjustments, nextShader: ShaderEffect | null) => {
+    setSelectedId('');
+    setAdjustments(next);
+    setShader(nextShader);
+    onApply({ id: CUSTOM_FILTER_ID, name: 'CUSTOM', css: adjustmentsToCss(next), shader: nextShader });
+  };
+
+  const handleLoad = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    setSelectedId(preset ? id : '');
+    if (!preset) return;
+    setAdjustments(preset.adjustments);
+    setShader(preset.shader);
+    onApply(presetToFilter(preset));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const preset = onSave(newName.trim().toUpperCase(), adjustments, shader);
+    setSelectedId(preset.id);
+    onApply(presetToFilter(preset));
+    setNewName('');
+  };
+
+  const handleDelete = () => {
+    onDelete(selectedId);
+    setSelectedId('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex space-x-2 items-end">
+        <div className="flex-1">
+          <label className={labelClass}>{t('common.preset')}</label>
+          <select value={selectedId} onChange={e => handleLoad(e.target.value)} className={fieldClass}>
+            <option value="">{t(presets.length ? 'filters.unsaved' : 'filters.noPresets')}</option>
+            {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+          </select>
+        </div>
+        {selectedId && (
+          <button
+            onClick={handleDelete}
+            className="px-3 py-2 border border-red-900/50 text-red-500 text-xs uppercase hover:border-red-500 hover:bg-red-900/20"
+          >
+            {t('common.delete')}
+          </button>
+        )}
+      </div>
+
+      <div>
+        <label className={labelClass}>{t('filters.shader')}</label>
+        <select
+          value={shader ?? ''}
+          onChange={e => edit(adjustments, (e.target.value || null) as ShaderEffect | null)}
+          className={fieldClass}
+        >
+          <option value="">{t('common.none')}</option>
+          {SHADER_EFFECTS.map(effect => <option key={effect.id} value={effect.id}>{effect.name}</option>)}
+        </select>
+      </div>
+
+      {ADJUSTMENT_CONTROLS.map(control => (
+        <div key={control.key}>
+          <div className="flex justify-between">
+            <label className={labelClass}>{t(control.labelKey)}</label>
+            <span className="theme-text text-[10px] opacity-60 font-mono">{adjustments[control.key]}</span>
+          </div>
+          <input
+            type="range"
+            min={control.min}
+            max={control.max}
+            step={control.step}
+            value={adjustments[control.key]}
+            onChange={e => edit({ ...adjustments, [control.key]: Number(e.target.value) }, shader)}
+            className="w-full accent-current theme-text cursor-pointer"
+          />
+        </div>
+      ))}
+
+      <button
+        onClick={() => edit(DEFAULT_ADJUSTMENTS, null)}
+        className="w-full border theme-border theme-text text-xs py-1 uppercase hover:theme-bg-dim"
+      >
+        {t('common.reset')}
+      </button>
+
+      <form onSubmit={handleSave} className="flex space-x-2">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          className="flex-1 bg-black border-b theme-border py-1 theme-text text-sm focus:outline-none placeholder-opacity-30"
+          placeholder={t('filters.newName')}
+        />
+        <button type="submit" disabled={!newName.trim()} className="px-3 border theme-border theme-text text-xs uppercase hover:theme-bg-dim disabled:opacity-40">
+          {t('common.saveAs')}
+        </button>
+      </form>
+    </div>
+  );
+};
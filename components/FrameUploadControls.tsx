@@ -0,0 +1,65 @@
+import React from 'react';
+import { FrameUploadSettings } from '../types';
+import { BANDWIDTH_CAPS, CHANGE_THRESHOLDS, FRAME_RATES, UPLOAD_DIMENSIONS } from '../services/frameSampler';
+import { useI18n } from '../services/i18n';
+
+interface FrameUploadControlsProps {
+  settings: FrameUploadSettings;
+  onChange: (settings: FrameUploadSettings) => void;
+  disabled?: boolean;
+}
+
+const selectClass = 'w-full bg-black border theme-border theme-text text-xs py-1 px-2 focus:outline-none';
+const labelClass = 'block theme-text text-[10px] opacity-60 uppercase mb-1';
+
+export const FrameUploadControls: React.FC<FrameUploadControlsProps> = ({ settings, onChange, disabled }) => {
+  const { t, formatNumber } = useI18n();
+  return (
+    <div className="grid grid-cols-2 gap-2 mt-3">
+      <div>
+        <label className={labelClass}>{t('frames.uploadRes')}</label>
+        <select
+          value={settings.maxDimension}
+          onChange={e => onChange({ ...settings, maxDimension: Number(e.target.value) })}
+          className={selectClass}
+          disabled={disabled}
+        >
+          {UPLOAD_DIMENSIONS.map(size => <option key={size} value={size}>{formatNumber(size)}px</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>{t('frames.frameRate')}</label>
+        <select
+          value={settings.frameRate}
+          onChange={e => onChange({ ...settings, frameRate: Number(e.target.value) })}
+          className={selectClass}
+          disabled={disabled}
+        >
+          {FRAME_RATES.map(fps => <option key={fps} value={fps}>{formatNumber(fps)} FPS</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>{t('frames.motionGate')}</label>
+        <select
+          value={settings.changeThreshold}
+          onChange={e => onChange({ ...settings, changeThreshold: Number(e.target.value) })}
+          className={selectClass}
+          disabled={disabled}
+        >
+          {CHANGE_THRESHOLDS.map(threshold => <option key={threshold.value} value={threshold.value}>{t(threshold.labelKey)}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>{t('frames.bandwidthCap')}</label>
+        <select
+          value={settings.bandwidthKbps}
+          onChange={e => onChange({ ...settings, bandwidthKbps: Number(e.target.value) })}
+          className={selectClass}
+          disabled={disabled}
+        >
+          {BANDWIDTH_CAPS.map(cap => <option key={cap} value={cap}>{cap ? `${formatNumber(cap)} KBPS` : t('frames.uncapped')}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { MessageKey } from '../locales/en';
+import { useI18n } from '../services/i18n';
+import { bindHotkey, comboFromEvent, DEFAULT_KEYMAP, HOTKEY_ACTIONS, HotkeyAction, Keymap } from '../services/hotkeys';
+
+interface KeymapSettingsProps {
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+}
+
+export const HOTKEY_LABELS: Record<HotkeyAction, MessageKey> = {
+  openPalette: 'hotkeys.openPalette',
+  toggleCall: 'hotkeys.toggleCall',
+  toggleMute: 'hotkeys.toggleMute',
+  toggleVideo: 'hotkeys.toggleVideo',
+  toggleScreenShare: 'hotkeys.toggleScreenShare',
+  toggleFilters: 'hotkeys.toggleFilters',
+  togglePiP: 'hotkeys.togglePiP',
+  toggleRecording: 'hotkeys.toggleRecording',
+  takeSnapshot: 'hotkeys.takeSnapshot',
+  toggleSidebar: 'hotkeys.toggleSidebar',
+};
+
+// Click a binding, then press the new combo; Esc cancels, Backspace unbinds
+export const KeymapSettings: React.FC<KeymapSettingsProps> = ({ keymap, onChange }) => {
+  const { t } = useI18n();
+  const [capturing, setCapturing] = useState<HotkeyAction | null>(null);
+
+  const handleCapture = (action: HotkeyAction) => (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === 'Tab') return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setCapturing(null);
+      return;
+    }
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      onChange({ ...keymap, [action]: '' });
+      setCapturing(null);
+      return;
+    }
+    const combo = comboFromEvent(e);
+    if (!combo) return;
+    onChange(bindHotkey(keymap, action, combo));
+    setCapturing(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      {HOTKEY_ACTIONS.map(action => (
+        <div key={action} className="flex items-center justify-between text-xs font-mono">
+          <span className="theme-text opacity-80 uppercase">{t(HOTKEY_LABELS[action])}</span>
+          <button
+            onClick={() => setCapturing(capturing === action ? null : action)}
+            onKeyDown={capturing === action ? handleCapture(action) : undefined}
+            onBlur={() => setCapturing(prev => (prev === action ? null : prev))}
+            className={`min-w-[80px] px-2 py-0.5 border theme-border text-[10px] uppercase ${capturing === action ? 'theme-bg text-black animate-pulse' : 'theme-text hover:theme-bg-dim'}`}
+          >
+            {capturing === action ? t('hotkeys.press') : keymap[action] || t('hotkeys.unbound')}
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange(DEFAULT_KEYMAP)}
+        className="w-full mt-2 border theme-border theme-text text-xs py-1 uppercase hover:theme-bg-dim"
+      >
+        {t('hotkeys.reset')}
+      </button>
+      <p className="theme-text opacity-50 text-[10px]">{t('hotkeys.hint')}</p>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { MissionNote } from '../types';
+import { XMarkIcon } from './Icons';
+import { useI18n } from '../services/i18n';
+
+interface MissionNotesProps {
+  notes: MissionNote[];
+  onAdd: (text: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}
+
+export const MissionNotes: React.FC<MissionNotesProps> = ({ notes, onAdd, onDelete, onClear }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    onAdd(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {notes.length === 0 ? (
+        <p className="theme-text opacity-40 text-xs font-mono">{t('notes.empty')}</p>
+      ) : (
+        <ul className="space-y-1 max-h-40 overflow-y-auto pr-1">
+          {notes.map(note => (
+            <li key={note.id} className="flex items-start text-xs font-mono border-l-2 theme-border pl-2">
+              <span className="theme-text flex-1 break-words">{note.text}</span>
+              <button onClick={() => onDelete(note.id)} className="theme-text opacity-50 hover:opacity-100 ml-2" title={t('notes.delete')}>
+                <XMarkIcon className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleSubmit} className="flex space-x-2">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          className="flex-1 bg-black border-b theme-border py-1 theme-text text-sm focus:outline-none placeholder-opacity-30"
+          placeholder={t('notes.add')}
+        />
+        {notes.length > 0 && (
+          <button type="button" onClick={onClear} className="text-red-500 text-[10px] uppercase hover:underline">
+            {t('notes.clear')}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
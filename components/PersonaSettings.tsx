@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { PersonaPreset } from '../types';
+import { PREBUILT_VOICES, SPEECH_LANGUAGES } from '../constants';
+import { useI18n } from '../services/i18n';
+
+interface PersonaSettingsProps {
+  presets: PersonaPreset[];
+  persona: PersonaPreset;
+  isDirty: boolean;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onChange: (persona: PersonaPreset) => void;
+  onSaveAs: (name: string) => void;
+  onUpdate: () => void;
+  onDelete: (id: string) => void;
+}
+
+const fieldClass = 'w-full bg-black border theme-border theme-text text-sm py-2 px-3 focus:outline-none';
+const labelClass = 'block theme-text text-[10px] opacity-60 uppercase mb-1';
+
+export const PersonaSettings: React.FC<PersonaSettingsProps> = ({
+  presets, persona, isDirty, disabled, onSelect, onChange, onSaveAs, onUpdate, onDelete,
+}) => {
+  const { t } = useI18n();
+  const [newName, setNewName] = useState('');
+
+  const handleSaveAs = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onSaveAs(newName.trim().toUpperCase());
+    setNewName('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>{t('common.preset')}</label>
+        <select value={persona.id} onChange={e => onSelect(e.target.value)} className={fieldClass} disabled={disabled}>
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.name}{preset.builtIn ? '' : ' *'}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>{t('persona.voice')}</label>
+          <select value={persona.voiceName} onChange={e => onChange({ ...persona, voiceName: e.target.value })} className={fieldClass} disabled={disabled}>
+            {PREBUILT_VOICES.map(voice => <option key={voice} value={voice}>{voice.toUpperCase()}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{t('persona.language')}</label>
+          <select value={persona.languageCode} onChange={e => onChange({ ...persona, languageCode: e.target.value })} className={fieldClass} disabled={disabled}>
+            {SPEECH_LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>{t('persona.instruction')}</label>
+        <textarea
+          value={persona.instruction}
+          onChange={e => onChange({ ...persona, instruction: e.target.value })}
+          rows={5}
+          disabled={disabled}
+          className={`${fieldClass} text-xs resize-y font-mono`}
+        />
+        <p className="theme-text opacity-40 text-[10px] mt-1 font-mono">{'VARS: ${userName} ${date} ${time} ${language}'}</p>
+      </div>
+
+      {!persona.builtIn && (
+        <div className="flex space-x-2">
+          <button
+            onClick={onUpdate}
+            disabled={disabled || !isDirty}
+            className="flex-1 theme-bg text-black font-bold text-xs py-2 uppercase tracking-wide hover:brightness-110 disabled:opacity-40"
+          >
+            {t('persona.update')}
+          </button>
+          <button
+            onClick={() => onDelete(persona.id)}
+            disabled={disabled}
+            className="px-3 border border-red-900/50 text-red-500 text-xs uppercase hover:border-red-500 hover:bg-red-900/20 disabled:opacity-40"
+          >
+            {t('common.delete')}
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleSaveAs} className="flex space-x-2">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          disabled={disabled}
+          className="flex-1 bg-black border-b theme-border py-1 theme-text text-sm focus:outline-none placeholder-opacity-30"
+          placeholder={t('persona.newName')}
+        />
+        <button type="submit" disabled={disabled || !newName.trim()} className="px-3 border theme-border theme-text text-xs uppercase hover:theme-bg-dim disabled:opacity-40">
+          {t('common.saveAs')}
+        </button>
+      </form>
+      {disabled && <p className="text-red-500 text-[10px]">{t('persona.locked')}</p>}
+    </div>
+  );
+};
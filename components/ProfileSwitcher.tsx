@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { OperatorProfile } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface ProfileSwitcherProps {
+  profiles: OperatorProfile[];
+  activePhone: string;
+  disabled?: boolean;
+  onSwitch: (phone: string) => void;
+  onForget: (phone: string) => void;
+}
+
+// Known operators on this device; forgetting asks for a second click before wiping anything
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activePhone, disabled, onSwitch, onForget }) => {
+  const { t } = useI18n();
+  const [pendingForget, setPendingForget] = useState<string | null>(null);
+
+  if (profiles.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {profiles.map(profile => {
+        const isActive = profile.phone === activePhone;
+        const isPending = pendingForget === profile.phone;
+        return (
+          <div key={profile.phone} className={`flex items-center border theme-border p-2 text-xs font-mono ${isActive ? 'theme-bg-dim' : ''}`}>
+            <span className="w-6 h-6 mr-2 border theme-border flex items-center justify-center theme-text font-bold">
+              {profile.name ? profile.name.charAt(0).toUpperCase() : '#'}
+            </span>
+            <div className="flex-1 min-w-0">
+              <p className="theme-text truncate">{profile.name || t('common.operator')}</p>
+              <p className="theme-text opacity-50 text-[10px]">{profile.phone}</p>
+            </div>
+            {!isActive && !isPending && (
+              <button
+                onClick={() => onSwitch(profile.phone)}
+                disabled={disabled}
+                className="px-2 py-1 ml-1 theme-bg text-black font-bold uppercase hover:brightness-110 disabled:opacity-40"
+              >
+                {t('profiles.switch')}
+              </button>
+            )}
+            {isPending ? (
+              <>
+                <button
+                  onClick={() => { setPendingForget(null); onForget(profile.phone); }}
+                  className="px-2 py-1 ml-1 border border-red-500 text-red-500 uppercase hover:bg-red-900/20"
+                >
+                  {t('profiles.confirmForget')}
+                </button>
+                <button onClick={() => setPendingForget(null)} className="px-2 py-1 ml-1 theme-text opacity-60 uppercase hover:opacity-100">
+                  {t('common.cancel')}
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setPendingForget(profile.phone)}
+                disabled={disabled}
+                className="px-2 py-1 ml-1 border border-red-900/50 text-red-500 uppercase hover:border-red-500 hover:bg-red-900/20 disabled:opacity-40"
+                title={t('profiles.forgetHint')}
+              >
+                {t('profiles.forget')}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
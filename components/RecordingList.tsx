@@ -0,0 +1,68 @@
+import React from 'react';
+import { CallRecording } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface RecordingListProps {
+  recordings: CallRecording[];
+  // Ids of sessions still in the log, so dangling transcript links can be hidden
+  sessionIds: Set<string>;
+  onDownload: (recording: CallRecording) => void;
+  onOpenTranscript: (sessionId: string) => void;
+  onDelete: (recording: CallRecording) => void;
+}
+
+type NumberFormatter = (value: number, options?: Intl.NumberFormatOptions) => string;
+
+const formatDuration = (ms: number, formatNumber: NumberFormatter) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${formatNumber(minutes)}:${formatNumber(totalSeconds % 60, { minimumIntegerDigits: 2 })}`;
+};
+
+const formatSize = (bytes: number, formatNumber: NumberFormatter) =>
+  bytes >= 1024 * 1024
+    ? `${formatNumber(bytes / (1024 * 1024), { minimumFractionDigits: 1, maximumFractionDigits: 1 })} MB`
+    : `${formatNumber(Math.max(1, Math.round(bytes / 1024)))} KB`;
+
+export const RecordingList: React.FC<RecordingListProps> = ({ recordings, sessionIds, onDownload, onOpenTranscript, onDelete }) => {
+  const { t, formatDateTime, formatNumber } = useI18n();
+  if (recordings.length === 0) {
+    return <p className="theme-text opacity-40 text-xs font-mono">{t('recordings.empty')}</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+      {recordings.map(recording => (
+        <div key={recording.id} className="border theme-border p-2 text-xs font-mono">
+          <div className="flex items-center justify-between mb-2">
+            <span className="theme-text">{formatDateTime(recording.startedAt)}</span>
+            <span className="theme-text opacity-50">{formatDuration(recording.durationMs, formatNumber)} | {formatSize(recording.size, formatNumber)}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => onDownload(recording)}
+              className="px-2 py-1 theme-bg text-black font-bold uppercase hover:brightness-110"
+            >
+              WEBM
+            </button>
+            {recording.sessionId && sessionIds.has(recording.sessionId) && (
+              <button
+                onClick={() => onOpenTranscript(recording.sessionId!)}
+                className="px-2 py-1 border theme-border theme-text uppercase hover:theme-bg-dim"
+                title={t('recordings.openTranscript')}
+              >
+                {t('recordings.log')}
+              </button>
+            )}
+            <button
+              onClick={() => onDelete(recording)}
+              className="ml-auto px-2 py-1 border border-red-900/50 text-red-500 uppercase hover:border-red-500 hover:bg-red-900/20"
+            >
+              {t('common.delete')}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ScreenShareLayout } from '../types';
+import { INSET_CORNERS, MAX_INSET_SIZE, MIN_INSET_SIZE, SCREEN_SHARE_MODES } from '../services/screenComposite';
+import { useI18n } from '../services/i18n';
+
+interface ScreenShareSettingsProps {
+  layout: ScreenShareLayout;
+  onChange: (layout: ScreenShareLayout) => void;
+}
+
+const labelClass = 'block theme-text text-[10px] opacity-60 uppercase mb-1';
+const optionClass = (active: boolean) =>
+  `py-1 border theme-border text-xs uppercase font-mono ${active ? 'theme-bg text-black' : 'theme-text hover:theme-bg-dim'}`;
+
+export const ScreenShareSettings: React.FC<ScreenShareSettingsProps> = ({ layout, onChange }) => {
+  const { t, formatNumber } = useI18n();
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>{t('share.send')}</label>
+        <div className="grid grid-cols-3 gap-2">
+          {SCREEN_SHARE_MODES.map(mode => (
+            <button key={mode.value} onClick={() => onChange({ ...layout, mode: mode.value })} className={optionClass(layout.mode === mode.value)}>
+              {t(mode.labelKey)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {layout.mode !== 'screen' && (
+        <>
+          <div>
+            <label className={labelClass}>{t('share.insetCorner')}</label>
+            <div className="grid grid-cols-4 gap-2">
+              {INSET_CORNERS.map(corner => (
+                <button
+                  key={corner.value}
+                  onClick={() => onChange({ ...layout, corner: corner.value, position: null })}
+                  className={optionClass(!layout.position && layout.corner === corner.value)}
+                >
+                  {t(corner.labelKey)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <div className="flex justify-between">
+              <label className={labelClass}>{t('share.insetSize')}</label>
+              <span className="theme-text text-[10px] opacity-60 font-mono">{formatNumber(layout.size, { style: 'percent' })}</span>
+            </div>
+            <input
+              type="range"
+              min={MIN_INSET_SIZE}
+              max={MAX_INSET_SIZE}
+              step={0.01}
+              value={layout.size}
+              onChange={e => onChange({ ...layout, size: Number(e.target.value) })}
+              className="w-full accent-current theme-text cursor-pointer"
+            />
+          </div>
+          <p className="theme-text opacity-40 text-[10px] font-mono">
+            {t(layout.mode === 'pip' ? 'share.pipHint' : 'share.alternateHint')}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { SessionRecord } from '../types';
+import { ExportFormat } from '../services/transcriptExport';
+import { useI18n } from '../services/i18n';
+
+interface SessionHistoryProps {
+  sessions: SessionRecord[];
+  onOpen: (session: SessionRecord) => void;
+  onDelete: (session: SessionRecord) => void;
+  onExport: (session: SessionRecord, format: ExportFormat) => void;
+}
+
+const formatDuration = (session: SessionRecord, formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string) => {
+  if (!session.endedAt) return '--:--';
+  const totalSeconds = Math.round((session.endedAt - session.startedAt) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${formatNumber(minutes)}:${formatNumber(totalSeconds % 60, { minimumIntegerDigits: 2 })}`;
+};
+
+const EXPORT_FORMATS: ExportFormat[] = ['json', 'md', 'srt'];
+
+export const SessionHistory: React.FC<SessionHistoryProps> = ({ sessions, onOpen, onDelete, onExport }) => {
+  const { t, formatDateTime, formatNumber } = useI18n();
+  if (sessions.length === 0) {
+    return <p className="theme-text opacity-40 text-xs font-mono">{t('sessions.empty')}</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+      {sessions.map(session => (
+        <div key={session.id} className="border theme-border p-2 text-xs font-mono">
+          <div className="flex items-center justify-between mb-2">
+            <span className="theme-text">{formatDateTime(session.startedAt)}</span>
+            <span className="theme-text opacity-50">{formatDuration(session, formatNumber)} | {t('sessions.turns', { count: session.turns.length })}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => onOpen(session)}
+              className="px-2 py-1 theme-bg text-black font-bold uppercase hover:brightness-110"
+            >
+              {t('sessions.open')}
+            </button>
+            {EXPORT_FORMATS.map(format => (
+              <button
+                key={format}
+                onClick={() => onExport(session, format)}
+                className="px-2 py-1 border theme-border theme-text uppercase hover:theme-bg-dim"
+                title={t('sessions.export', { format: format.toUpperCase() })}
+              >
+                {format}
+              </button>
+            ))}
+            <button
+              onClick={() => onDelete(session)}
+              className="ml-auto px-2 py-1 border border-red-900/50 text-red-500 uppercase hover:border-red-500 hover:bg-red-900/20"
+            >
+              {t('common.delete')}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React, { useRef } from 'react';
+import { useI18n } from '../services/i18n';
+
+interface SettingsTransferProps {
+  disabled?: boolean;
+  onExport: () => void;
+  onImport: (text: string) => void;
+}
+
+const buttonClass = 'flex-1 border theme-border theme-text text-xs py-1 uppercase hover:theme-bg-dim disabled:opacity-40';
+
+// Moves this device's settings and the operator's own to another machine as one JSON file
+export const SettingsTransfer: React.FC<SettingsTransferProps> = ({ disabled, onExport, onImport }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(await file.text());
+  };
+
+  return (
+    <div>
+      <div className="flex space-x-2">
+        <button onClick={onExport} className={buttonClass}>{t('settingsFile.export')}</button>
+        <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className={buttonClass}>{t('settingsFile.import')}</button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </div>
+      <p className="theme-text opacity-50 text-[10px] mt-2">{t('settingsFile.hint')}</p>
+    </div>
+  );
+};
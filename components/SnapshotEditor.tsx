@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SnapshotMark, SnapshotRegion } from '../types';
+import { useI18n } from '../services/i18n';
+import { useFocusTrap } from '../services/accessibility';
+import { drawMarks, FULL_FRAME, isMarkTooSmall, regionFromDrag } from '../services/snapshot';
+
+type SnapshotTool = 'box' | 'arrow' | 'crop';
+
+interface SnapshotEditorProps {
+  frame: HTMLCanvasElement; // frozen at full resolution
+  color: string;
+  onSend: (marks: SnapshotMark[], crop: SnapshotRegion | null, question: string) => void;
+  onCancel: () => void;
+}
+
+const TOOLS: { id: SnapshotTool; labelKey: 'snapshot.box' | 'snapshot.arrow' | 'snapshot.crop' }[] = [
+  { id: 'box', labelKey: 'snapshot.box' },
+  { id: 'arrow', labelKey: 'snapshot.arrow' },
+  { id: 'crop', labelKey: 'snapshot.crop' },
+];
+
+const buttonClass = 'flex-1 border theme-border text-xs py-1 uppercase disabled:opacity-40';
+
+// Mark up a frozen frame and ask about it. Without a typed question the image goes out
+// first and the operator asks out loud.
+export const SnapshotEditor: React.FC<SnapshotEditorProps> = ({ frame, color, onSend, onCancel }) => {
+  const { t } = useI18n();
+  const [tool, setTool] = useState<SnapshotTool>('box');
+  const [marks, setMarks] = useState<SnapshotMark[]>([]);
+  const [crop, setCrop] = useState<SnapshotRegion | null>(null);
+  const [draft, setDraft] = useState<SnapshotMark | null>(null); // the drag in progress
+  const [question, setQuestion] = useState('');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const handleTrapKeyDown = useFocusTrap(dialogRef, true, onCancel);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    ctx.drawImage(frame, 0, 0);
+    const pendingCrop = draft && tool === 'crop' ? regionFromDrag(draft.from, draft.to) : null;
+    const shownCrop = pendingCrop ?? crop;
+    if (shownCrop) {
+      // Dim everything outside the crop
+      const { x, y, width, height } = shownCrop;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(0, 0, frame.width, y * frame.height);
+      ctx.fillRect(0, (y + height) * frame.height, frame.width, (1 - y - height) * frame.height);
+      ctx.fillRect(0, y * frame.height, x * frame.width, height * frame.height);
+      ctx.fillRect((x + width) * frame.width, y * frame.height, (1 - x - width) * frame.width, height * frame.height);
+      ctx.setLineDash([8, 6]);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x * frame.width, y * frame.height, width * frame.width, height * frame.height);
+      ctx.setLineDash([]);
+    }
+    drawMarks(ctx, draft && tool !== 'crop' ? [...marks, draft] : marks, FULL_FRAME, frame.width, frame.height, color);
+  }, [frame, marks, crop, draft, tool, color]);
+
+  const pointFromEvent = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointFromEvent(e);
+    setDraft({ kind: tool === 'arrow' ? 'arrow' : 'box', from: point, to: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const to = pointFromEvent(e);
+    setDraft(prev => prev && { ...prev, to });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    if (tool === 'crop') {
+      const region = regionFromDrag(draft.from, draft.to);
+      if (region) setCrop(region);
+    } else if (!isMarkTooSmall(draft)) {
+      setMarks(prev => [...prev, draft]);
+    }
+    setDraft(null);
+  };
+
+  const undo = () => {
+    if (marks.length) setMarks(prev => prev.slice(0, -1));
+    else setCrop(null);
+  };
+
+  const send = () => onSend(marks, crop, question.trim());
+
+  const handleQuestionKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      send();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="snapshot-title"
+        onKeyDown={handleTrapKeyDown}
+        className="w-full max-w-4xl bg-black border theme-border theme-shadow font-mono p-4 space-y-3"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="snapshot-title" className="theme-text text-sm uppercase tracking-widest">{t('snapshot.title')}</h2>
+          <span className="theme-text opacity-50 text-[10px]">{frame.width}×{frame.height}</span>
+        </div>
+
+        <div className="flex space-x-2" role="group" aria-label={t('snapshot.tools')}>
+          {TOOLS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setTool(option.id)}
+              aria-pressed={tool === option.id}
+              className={`${buttonClass} ${tool === option.id ? 'theme-bg text-black' : 'theme-text hover:theme-bg-dim'}`}
+            >
+              {t(option.labelKey)}
+            </button>
+          ))}
+          <button onClick={undo} disabled={!marks.length && !crop} className={`${buttonClass} theme-text hover:theme-bg-dim`}>{t('snapshot.undo')}</button>
+          <button onClick={() => { setMarks([]); setCrop(null); }} disabled={!marks.length && !crop} className={`${buttonClass} theme-text hover:theme-bg-dim`}>{t('snapshot.clear')}</button>
+        </div>
+
+        <div className="flex justify-center">
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => setDraft(null)}
+            aria-label={t('snapshot.canvas')}
+            className="max-w-full max-h-[55vh] border theme-border cursor-crosshair touch-none"
+          />
+        </div>
+
+        <textarea
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          onKeyDown={handleQuestionKeyDown}
+          rows={2}
+          spellCheck={false}
+          placeholder={t('snapshot.questionPlaceholder')}
+          aria-label={t('snapshot.question')}
+          className="w-full bg-black border theme-border theme-text text-sm py-2 px-3 focus:outline-none resize-none placeholder-opacity-30"
+        />
+        {!question.trim() && <p className="theme-text opacity-50 text-[10px]">{t('snapshot.voiceHint')}</p>}
+
+        <div className="flex space-x-2">
+          <button onClick={send} className="flex-1 theme-bg text-black font-bold text-xs py-2 uppercase tracking-wide hover:brightness-110">
+            {t(question.trim() ? 'snapshot.send' : 'snapshot.sendAndSpeak')}
+          </button>
+          <button onClick={onCancel} className="px-4 border theme-border theme-text text-xs uppercase hover:theme-bg-dim">{t('common.cancel')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
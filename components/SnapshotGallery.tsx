@@ -0,0 +1,38 @@
+import React from 'react';
+import { SessionSnapshot } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface SnapshotGalleryProps {
+  snapshots: SessionSnapshot[];
+}
+
+// Everything sent this session, newest first, exactly as the model received it
+export const SnapshotGallery: React.FC<SnapshotGalleryProps> = ({ snapshots }) => {
+  const { t, formatDateTime } = useI18n();
+  if (snapshots.length === 0) {
+    return <p className="theme-text opacity-40 text-xs font-mono">{t('snapshot.empty')}</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+      {[...snapshots].reverse().map(snapshot => (
+        <div key={snapshot.id} className="border theme-border p-2 text-xs font-mono flex space-x-2">
+          <a href={snapshot.url} target="_blank" rel="noreferrer" className="shrink-0" title={t('snapshot.open')}>
+            <img src={snapshot.url} alt={snapshot.question || t('snapshot.askedByVoice')} className="w-20 h-14 object-cover border theme-border" />
+          </a>
+          <div className="flex-1 min-w-0 flex flex-col">
+            <span className="theme-text opacity-50 text-[10px]">{formatDateTime(snapshot.takenAt)} | {snapshot.width}×{snapshot.height}</span>
+            <span className={`theme-text break-words ${snapshot.question ? '' : 'opacity-50'}`}>{snapshot.question || t('snapshot.askedByVoice')}</span>
+            <a
+              href={snapshot.url}
+              download={`rinu-snapshot-${snapshot.id}.jpg`}
+              className="mt-auto self-start px-2 py-0.5 border theme-border theme-text uppercase hover:theme-bg-dim"
+            >
+              JPG
+            </a>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useRef, useState } from 'react';
+import { ThemeDefinition } from '../types';
+import { THEME_FONTS } from '../constants';
+import { useI18n } from '../services/i18n';
+import { contrastWarnings, GRID_SIZE_RANGE, parseColor, SCANLINE_OPACITY_RANGE, toHex, toRgba } from '../services/themes';
+
+interface ThemeEditorProps {
+  activeTheme: ThemeDefinition;
+  customThemes: ThemeDefinition[];
+  onPreview: (theme: ThemeDefinition | null) => void; // null restores the saved theme
+  onSave: (theme: ThemeDefinition) => void;
+  onDelete: (id: string) => void;
+  onImport: (text: string) => void;
+  onExport: (themes: ThemeDefinition[]) => void;
+}
+
+const fieldClass = 'w-full bg-black border theme-border theme-text text-sm py-2 px-3 focus:outline-none';
+const labelClass = 'block theme-text text-[10px] opacity-60 uppercase mb-1';
+const buttonClass = 'flex-1 border theme-border theme-text text-xs py-1 uppercase hover:theme-bg-dim disabled:opacity-40';
+
+// Color picker plus opacity slider, for the rgba glow / dim colors
+const ColorAlphaField: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => {
+  const color = parseColor(value) ?? { r: 0, g: 0, b: 0, a: 1 };
+  return (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <div className="flex items-center space-x-2">
+        <input
+          type="color"
+          value={toHex(color)}
+          onChange={e => onChange(toRgba({ ...parseColor(e.target.value)!, a: color.a }))}
+          className="w-8 h-6 bg-black border theme-border cursor-pointer"
+        />
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={color.a}
+          onChange={e => onChange(toRgba({ ...color, a: Number(e.target.value) }))}
+          className="flex-1 accent-current theme-text cursor-pointer"
+        />
+        <span className="theme-text text-[10px] opacity-60 font-mono w-8 text-right">{Math.round(color.a * 100)}%</span>
+      </div>
+    </div>
+  );
+};
+
+export const ThemeEditor: React.FC<ThemeEditorProps> = ({
+  activeTheme, customThemes, onPreview, onSave, onDelete, onImport, onExport,
+}) => {
+  const { t, formatNumber } = useI18n();
+  const [draft, setDraft] = useState<ThemeDefinition | null>(null);
+  const [newName, setNewName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<ThemeDefinition>) => {
+    if (!draft) return;
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    onPreview(next);
+  };
+
+  const close = () => {
+    setDraft(null);
+    setNewName('');
+    onPreview(null);
+  };
+
+  const handleSaveAs = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !newName.trim()) return;
+    onSave({ ...draft, id: `theme-${Date.now().toString(36)}`, name: newName.trim(), builtIn: false });
+    close();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(await file.text());
+  };
+
+  if (!draft) {
+    return (
+      <div className="flex space-x-2">
+        <button onClick={() => { setDraft({ ...activeTheme }); onPreview(activeTheme); }} className={buttonClass}>{t('theme.edit')}</button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>{t('theme.import')}</button>
+        <button onClick={() => onExport([activeTheme])} className={buttonClass}>{t('theme.export')}</button>
+        <button onClick={() => onExport(customThemes)} disabled={!customThemes.length} className={buttonClass} title={t('theme.exportAllCustom')}>{t('theme.exportAll')}</button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </div>
+    );
+  }
+
+  const warnings = contrastWarnings(draft);
+
+  return (
+    <div className="space-y-3 border theme-border p-3">
+      <div className="flex items-center justify-between">
+        <span className="theme-text text-xs uppercase tracking-wider">{t('theme.editing', { name: draft.name })}</span>
+        <button onClick={close} className="theme-text text-[10px] opacity-60 hover:opacity-100 uppercase">{t('common.cancel')}</button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>{t('theme.primary')}</label>
+          <input type="color" value={toHex(parseColor(draft.color)!)} onChange={e => update({ color: e.target.value })} className="w-full h-6 bg-black border theme-border cursor-pointer" />
+        </div>
+        <div>
+          <label className={labelClass}>{t('theme.background')}</label>
+          <input type="color" value={toHex(parseColor(draft.background)!)} onChange={e => update({ background: e.target.value })} className="w-full h-6 bg-black border theme-border cursor-pointer" />
+        </div>
+      </div>
+      <ColorAlphaField label={t('theme.glow')} value={draft.glow} onChange={glow => update({ glow })} />
+      <ColorAlphaField label={t('theme.dim')} value={draft.dim} onChange={dim => update({ dim })} />
+
+      <div>
+        <label className={labelClass}>{t('theme.font')}</label>
+        <select value={draft.font} onChange={e => update({ font: e.target.value })} className={fieldClass}>
+          {THEME_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+        </select>
+      </div>
+
+      <div>
+        <div className="flex justify-between">
+          <label className={labelClass}>{t('theme.gridDensity')}</label>
+          <span className="theme-text text-[10px] opacity-60 font-mono">{formatNumber(draft.gridSize)}px</span>
+        </div>
+        <input
+          type="range"
+          min={GRID_SIZE_RANGE.min}
+          max={GRID_SIZE_RANGE.max}
+          step={4}
+          value={draft.gridSize}
+          onChange={e => update({ gridSize: Number(e.target.value) })}
+          className="w-full accent-current theme-text cursor-pointer"
+        />
+      </div>
+      <div>
+        <div className="flex justify-between">
+          <label className={labelClass}>{t('theme.scanlineIntensity')}</label>
+          <span className="theme-text text-[10px] opacity-60 font-mono">{formatNumber(draft.scanlineOpacity, { style: 'percent' })}</span>
+        </div>
+        <input
+          type="range"
+          min={SCANLINE_OPACITY_RANGE.min}
+          max={SCANLINE_OPACITY_RANGE.max}
+          step={0.02}
+          value={draft.scanlineOpacity}
+          onChange={e => update({ scanlineOpacity: Number(e.target.value) })}
+          className="w-full accent-current theme-text cursor-pointer"
+        />
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="p-2 bg-red-900/20 border border-red-500 text-red-500 text-[10px] font-mono uppercase">
+          {t('theme.lowContrast')}: {warnings.join(' / ')}
+        </div>
+      )}
+
+      {!draft.builtIn && (
+        <div className="flex space-x-2">
+          <button
+            onClick={() => { onSave(draft); close(); }}
+            className="flex-1 theme-bg text-black font-bold text-xs py-2 uppercase tracking-wide hover:brightness-110"
+          >
+            {t('theme.update')}
+          </button>
+          <button
+            onClick={() => { onDelete(draft.id); close(); }}
+            className="px-3 border border-red-900/50 text-red-500 text-xs uppercase hover:border-red-500 hover:bg-red-900/20"
+          >
+            {t('common.delete')}
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleSaveAs} className="flex space-x-2">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          className="flex-1 bg-black border-b theme-border py-1 theme-text text-sm focus:outline-none placeholder-opacity-30"
+          placeholder={t('theme.newName')}
+        />
+        <button type="submit" disabled={!newName.trim()} className="px-3 border theme-border theme-text text-xs uppercase hover:theme-bg-dim disabled:opacity-40">
+          {t('common.saveAs')}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface ToggleProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Sidebar on/off switch; a real button so it is reachable and announced as a switch
+export const Toggle: React.FC<ToggleProps> = ({ label, checked, onChange, disabled, className = '' }) => (
+  <label className={`flex items-center justify-between group ${disabled ? 'opacity-50' : 'cursor-pointer'} ${className}`}>
+    <span className="theme-text text-sm font-mono group-hover:text-white transition-colors">{label}</span>
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      onClick={() => onChange(!checked)}
+      disabled={disabled}
+      className={`w-10 h-5 rounded-full relative transition-colors ${checked ? 'theme-bg' : 'bg-gray-800'}`}
+    >
+      <span className={`absolute top-1 w-3 h-3 rounded-full bg-black transition-all ${checked ? 'right-1' : 'left-1'}`}></span>
+    </button>
+  </label>
+);
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { ActiveTimer, ToolInvocation } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface ToolActivityProps {
+  invocations: ToolInvocation[];
+  timers: ActiveTimer[];
+}
+
+const STATUS_CLASS: Record<ToolInvocation['status'], string> = {
+  running: 'text-yellow-500 animate-pulse',
+  ok: 'theme-text',
+  error: 'text-red-500',
+  cancelled: 'text-gray-500 line-through',
+};
+
+const formatArgs = (args: Record<string, unknown>) =>
+  Object.values(args).map(value => (typeof value === 'string' ? value : JSON.stringify(value))).join(', ');
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes.toString().padStart(2, '0')}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+// HUD feed of what the AI did through tools, plus running timers
+export const ToolActivity: React.FC<ToolActivityProps> = ({ invocations, timers }) => {
+  const { t } = useI18n();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (timers.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [timers.length]);
+
+  if (invocations.length === 0 && timers.length === 0) return null;
+
+  return (
+    <div className="absolute top-20 left-6 w-72 z-20 space-y-2 font-mono pointer-events-none">
+      {timers.map(timer => (
+        <div key={timer.id} className="bg-black/70 border theme-border px-3 py-1 flex items-center justify-between">
+          <span className="theme-text text-xs uppercase tracking-wider truncate mr-2">T// {timer.label}</span>
+          <span className="theme-text text-sm font-bold text-glow">{formatRemaining(timer.endsAt - now)}</span>
+        </div>
+      ))}
+      {invocations.length > 0 && (
+        <div className="bg-black/70 border theme-border px-3 py-2 space-y-1">
+          <p className="theme-text opacity-50 text-[10px] uppercase tracking-widest">{t('tools.title')}</p>
+          {invocations.slice(-5).map(invocation => (
+            <p key={invocation.id} className={`text-[11px] truncate ${STATUS_CLASS[invocation.status]}`} title={invocation.result}>
+              {'>'} {invocation.name}({formatArgs(invocation.args)}) {invocation.status === 'running' ? '...' : invocation.status.toUpperCase()}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
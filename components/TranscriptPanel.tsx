@@ -0,0 +1,55 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptTurn } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface TranscriptPanelProps {
+  turns: TranscriptTurn[];
+  operatorName: string;
+  variant: 'card' | 'overlay';
+  title?: string;
+}
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ turns, operatorName, variant, title }) => {
+  const { t, formatTime } = useI18n();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest line in view as partial text streams in
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [turns]);
+
+  const wrapperClass = variant === 'overlay'
+    ? 'absolute top-20 right-6 w-80 max-h-[45vh] z-20 bg-black/70 backdrop-blur-sm'
+    : 'w-full max-w-4xl mt-4 h-40 bg-black relative z-10';
+
+  return (
+    <div className={`${wrapperClass} border theme-border flex flex-col font-mono`}>
+      <div className="flex items-center justify-between px-3 py-1 border-b theme-border theme-bg-dim">
+        <span className="theme-text text-[10px] uppercase tracking-widest">{title ?? t('transcript.title')}</span>
+        <span className="theme-text opacity-50 text-[10px]">{t('transcript.entries', { count: turns.length })}</span>
+      </div>
+      <div ref={scrollRef} className="flex-1 overflow-y-auto px-3 py-2 space-y-2">
+        {turns.length === 0 ? (
+          <p className="theme-text opacity-40 text-xs">{'>>'} {t('transcript.awaiting')}</p>
+        ) : (
+          turns.map(turn => (
+            <div key={turn.id} className={`text-xs leading-relaxed ${turn.isFinal ? '' : 'opacity-60'}`}>
+              <span className="theme-text opacity-50 mr-2">[{formatTime(turn.timestamp)}]</span>
+              <span className={`font-bold mr-2 ${turn.speaker === 'rinu' ? 'theme-text' : 'text-white'}`}>
+                {turn.speaker === 'rinu' ? t('transcript.rinu') : (operatorName || t('common.operator')).toUpperCase()}:
+              </span>
+              {turn.source === 'text' && <span className="theme-text opacity-50 mr-1">[TXT]</span>}
+              {turn.source === 'snapshot' && <span className="theme-text opacity-50 mr-1">[IMG]</span>}
+              <span className={`${turn.speaker === 'rinu' ? 'theme-text' : 'text-gray-300'} ${turn.source === 'text' || turn.source === 'snapshot' ? 'whitespace-pre-wrap break-all' : ''}`}>
+                {turn.text.trim()}
+                {!turn.isFinal && <span className="animate-pulse">_</span>}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,38 +1,104 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { AudioVisualizerProps } from '../types';
 
-export const Visualizer: React.FC<AudioVisualizerProps> = ({ isPlaying }) => {
-  const [bars, setBars] = useState<number[]>(new Array(5).fill(10));
+const RING_SPOKES = 64;
+
+export const Visualizer: React.FC<AudioVisualizerProps> = ({
+  isPlaying,
+  analyser,
+  variant = 'bars',
+  width = 120,
+  height = 32,
+  className = '',
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const frequencyData = new Uint8Array(analyser ? analyser.frequencyBinCount : 0);
+    const timeData = new Uint8Array(analyser ? analyser.fftSize : 0);
     let animationId: number;
-    const animate = () => {
-      if (isPlaying) {
-        setBars(prev => prev.map(() => Math.random() * 20 + 10)); // Simulate activity
+
+    // Bins above ~60% of Nyquist carry little speech energy
+    const bandValue = (index: number, count: number) => {
+      const usable = Math.floor(frequencyData.length * 0.6);
+      const start = Math.floor((index / count) * usable);
+      const end = Math.max(start + 1, Math.floor(((index + 1) / count) * usable));
+      let max = 0;
+      for (let i = start; i < end; i++) max = Math.max(max, frequencyData[i]);
+      return max / 255;
+    };
+
+    const draw = () => {
+      ctx.clearRect(0, 0, width, height);
+      const color = getComputedStyle(canvas).color;
+      ctx.fillStyle = color;
+      ctx.strokeStyle = color;
+      ctx.shadowColor = color;
+      ctx.shadowBlur = isPlaying ? 8 : 0;
+
+      if (analyser) {
+        analyser.getByteFrequencyData(frequencyData);
+        analyser.getByteTimeDomainData(timeData);
+      }
+
+      if (variant === 'waveform') {
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        const points = timeData.length || 2;
+        for (let i = 0; i < points; i++) {
+          const v = timeData.length ? timeData[i] / 128 - 1 : 0;
+          const x = (i / (points - 1)) * width;
+          const y = height / 2 + v * (height / 2);
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      } else if (variant === 'ring') {
+        const cx = width / 2;
+        const cy = height / 2;
+        const radius = Math.min(width, height) / 2 * 0.78;
+        const maxSpoke = Math.min(width, height) / 2 - radius;
+        ctx.lineWidth = Math.max(1.5, (2 * Math.PI * radius) / RING_SPOKES / 3);
+        ctx.beginPath();
+        for (let i = 0; i < RING_SPOKES; i++) {
+          // Mirror the spectrum so the ring is symmetric
+          const band = i < RING_SPOKES / 2 ? i : RING_SPOKES - 1 - i;
+          const length = 2 + bandValue(band, RING_SPOKES / 2) * maxSpoke;
+          const angle = (i / RING_SPOKES) * Math.PI * 2 - Math.PI / 2;
+          ctx.moveTo(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+          ctx.lineTo(cx + Math.cos(angle) * (radius + length), cy + Math.sin(angle) * (radius + length));
+        }
+        ctx.stroke();
       } else {
-        setBars(new Array(5).fill(5)); // Idle state
+        const barCount = Math.max(5, Math.floor(width / 8));
+        const barWidth = width / barCount - 2;
+        for (let i = 0; i < barCount; i++) {
+          const barHeight = Math.max(2, bandValue(i, barCount) * height);
+          ctx.fillRect(i * (barWidth + 2) + 1, (height - barHeight) / 2, barWidth, barHeight);
+        }
       }
-      animationId = requestAnimationFrame(animate);
-    };
-    
-    // Slow down the update rate slightly for better visual effect
-    const interval = setInterval(animate, 100);
 
-    return () => {
-      cancelAnimationFrame(animationId);
-      clearInterval(interval);
+      animationId = requestAnimationFrame(draw);
     };
-  }, [isPlaying]);
+    draw();
+
+    return () => cancelAnimationFrame(animationId);
+  }, [analyser, variant, width, height, isPlaying]);
 
   return (
-    <div className="flex items-center justify-center space-x-1 h-8">
-      {bars.map((height, i) => (
-        <div
-          key={i}
-          className="w-1.5 transition-all duration-100 ease-in-out theme-bg theme-shadow"
-          style={{ height: `${height}px` }}
-        />
-      ))}
-    </div>
+    <canvas
+      ref={canvasRef}
+      style={{ width, height }}
+      className={`theme-text transition-opacity duration-300 ${isPlaying ? 'opacity-100' : 'opacity-60'} ${className}`}
+    />
   );
-};
\ No newline at end of file
+};
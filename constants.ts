@@ -0,0 +1,42 @@
+import { ThemeDefinition, VisualizerStyle } from './types';
+
+// --- Filters Definition ---
+export const FILTERS = [
+  { name: 'NORMAL', value: 'none', class: '' },
+  { name: 'MATRIX', value: 'hue-rotate(90deg) contrast(1.2) brightness(0.9)', class: 'hue-rotate-90' },
+  { name: 'B&W', value: 'grayscale(1) contrast(1.2)', class: 'grayscale' },
+  { name: 'NIGHT', value: 'sepia(1) hue-rotate(100deg) saturate(3)', class: 'sepia hue-rotate-90' }, // Night vision style
+  { name: 'TERMINAL', value: 'contrast(1.5) saturate(0)', class: 'contrast-150' },
+  { name: 'INVERT', value: 'invert(1)', class: 'invert' },
+];
+
+// --- Theme Definition ---
+// Saved preferences refer to themes by id, so ids must never change
+const THEME_BASE = { background: '#000000', font: 'Share Tech Mono', gridSize: 40, scanlineOpacity: 0.1, builtIn: true };
+
+export const THEMES: ThemeDefinition[] = [
+  { ...THEME_BASE, id: 'hacker-green', name: 'Hacker Green', color: '#00ff41', glow: 'rgba(0, 255, 65, 0.7)', dim: 'rgba(0, 255, 65, 0.1)' },
+  { ...THEME_BASE, id: 'cyber-blue', name: 'Cyber Blue', color: '#00e5ff', glow: 'rgba(0, 229, 255, 0.7)', dim: 'rgba(0, 229, 255, 0.1)' },
+  { ...THEME_BASE, id: 'crimson-red', name: 'Crimson Red', color: '#ff003c', glow: 'rgba(255, 0, 60, 0.7)', dim: 'rgba(255, 0, 60, 0.1)' },
+  { ...THEME_BASE, id: 'neon-purple', name: 'Neon Purple', color: '#d000ff', glow: 'rgba(208, 0, 255, 0.7)', dim: 'rgba(208, 0, 255, 0.1)' },
+  { ...THEME_BASE, id: 'amber-orange', name: 'Amber Orange', color: '#ffae00', glow: 'rgba(255, 174, 0, 0.7)', dim: 'rgba(255, 174, 0, 0.1)' },
+];
+
+export const VISUALIZER_STYLES: VisualizerStyle[] = ['ring', 'bars', 'waveform'];
+
+// Monospace faces loaded in index.html
+export const THEME_FONTS = ['Share Tech Mono', 'VT323', 'IBM Plex Mono', 'Fira Code', 'Courier New'];
+
+// --- Voice & Language Options ---
+export const PREBUILT_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const SPEECH_LANGUAGES = [
+  { code: '', label: 'AUTO_DETECT' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'bn-IN', label: 'Bengali' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'ta-IN', label: 'Tamil' },
+  { code: 'te-IN', label: 'Telugu' },
+  { code: 'mr-IN', label: 'Marathi' },
+];
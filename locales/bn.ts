@@ -0,0 +1,302 @@
+import { MessageKey } from './en';
+
+export const bn: Record<MessageKey, string> = {
+  'auth.title': 'রিনু সিস্টেম',
+  'auth.required': 'প্রমাণীকরণ প্রয়োজন',
+  'auth.awaitingCode': 'অ্যাক্সেস কোডের অপেক্ষায়',
+  'auth.deviceId': 'ফোন নম্বর',
+  'auth.processing': 'প্রক্রিয়াকরণ চলছে...',
+  'auth.initiate': 'সংযোগ শুরু করুন',
+  'auth.encryptionKey': 'অ্যাক্সেস কোড',
+  'auth.decrypting': 'যাচাই করা হচ্ছে...',
+  'auth.access': 'প্রবেশ করুন',
+  'auth.resendIn': '{seconds} সেকেন্ড পরে আবার পাঠানো যাবে',
+  'auth.resend': 'কোড আবার পাঠান',
+  'auth.abort': 'বাতিল করুন',
+  'auth.errorPrefix': 'ত্রুটি',
+
+  'hud.menu': 'মেনু',
+  'hud.live': 'লাইভ',
+  'hud.reconnectingIn': '{seconds} সেকেন্ডে পুনঃসংযোগ',
+  'hud.reconnecting': 'পুনঃসংযোগ হচ্ছে...',
+  'hud.muted': 'মিউট',
+  'hud.mic': 'মাইক',
+  'hud.micLevel': 'মাইকের মাত্রা',
+  'hud.transmitting': 'পাঠানো হচ্ছে',
+  'hud.micGated': 'মাইক বন্ধ',
+  'hud.framesSent': 'পাঠানো ফ্রেম {sent} / বাদ {skipped}',
+  'hud.tx': 'TX {kbps} KBPS',
+  'hud.underruns': 'প্লেব্যাকে বিরতি',
+  'hud.rxGap': 'RX বিরতি x{count}',
+  'hud.rec': 'রেকর্ড',
+  'hud.screen': 'স্ক্রিন',
+  'hud.profile': 'ব্যবহারকারী প্রোফাইল',
+  'hud.noSignal': 'সিগন্যাল নেই',
+  'hud.alert': 'সতর্কতা',
+  'hud.archive': 'আর্কাইভ // {date}',
+  'hud.version': 'সিস্টেম সংস্করণ 2.0.5 | সুরক্ষিত চ্যানেল',
+  'hud.poweredBy': 'জেমিনি দ্বারা চালিত',
+  'hud.mockUplink': 'মক আপলিংক // অফলাইন ডেভ',
+
+  'controls.holdToTalk': 'কথা বলতে চেপে ধরুন [SPACE]',
+  'controls.mute': 'মিউট',
+  'controls.unmute': 'আনমিউট',
+  'controls.videoOn': 'ভিডিও চালু',
+  'controls.videoOff': 'ভিডিও বন্ধ',
+  'controls.call': 'সংযোগ শুরু',
+  'controls.hangUp': 'সংযোগ শেষ',
+  'controls.shareScreen': 'স্ক্রিন শেয়ার',
+  'controls.stopSharing': 'শেয়ার বন্ধ',
+  'controls.filters': 'ফিল্টার',
+  'controls.record': 'কল রেকর্ড',
+  'controls.stopRecording': 'রেকর্ড বন্ধ',
+  'controls.snapshot': 'স্ন্যাপশট',
+  'controls.volume': 'ভলিউম',
+  'controls.vol': 'ভলি',
+  'controls.minimize': 'ছোট করুন',
+  'controls.commandPlaceholder': 'বার্তা লিখুন... (SHIFT+ENTER = নতুন লাইন)',
+  'controls.uplinkOffline': 'আপলিংক অফলাইন',
+
+  'settings.title': 'সেটিংস',
+  'settings.operator': 'অপারেটর',
+  'settings.setAlias': 'ডাকনাম দিন...',
+  'settings.updateId': 'আপডেট করুন',
+  'settings.persona': 'পারসোনা',
+  'settings.appearance': 'চেহারা',
+  'settings.visualizer': 'ভিজ্যুয়ালাইজার',
+  'settings.grid': 'গ্রিড',
+  'settings.scanlines': 'স্ক্যানলাইন',
+  'settings.language': 'ভাষা',
+  'settings.replyInLanguage': 'রিনু এই ভাষায় উত্তর দেবে',
+  'settings.replyNextLink': '* উত্তরের ভাষা পরের সংযোগ থেকে কার্যকর হবে',
+  'settings.filterLab': 'ফিল্টার ল্যাব',
+  'settings.videoConfig': 'ভিডিও সেটিংস',
+  'settings.qualitySd': 'স্ট্যান্ডার্ড (480p)',
+  'settings.qualityHd': 'এইচডি (720p)',
+  'settings.qualityUhd': 'আল্ট্রা এইচডি (2160p)',
+  'settings.videoLocked': '* লাইভ অবস্থায় ভিডিও সেটিংস বদলানো যাবে না',
+  'settings.screenShare': 'স্ক্রিন শেয়ার',
+  'settings.devices': 'ডিভাইস',
+  'settings.audioConfig': 'অডিও সেটিংস',
+  'settings.uplinkChunk': 'আপলিংক খণ্ড',
+  'settings.chunkOption': '{ms} মি.সে. ({samples} স্যাম্পল)',
+  'settings.micMode': 'মাইক মোড',
+  'settings.micAlways': 'সবসময় চালু',
+  'settings.micPtt': 'চেপে কথা বলুন [SPACE]',
+  'settings.micVad': 'কণ্ঠস্বরে চালু (VAD)',
+  'settings.jitterBuffer': 'জিটার বাফার',
+  'settings.off': 'বন্ধ',
+  'settings.audioLocked': '* লাইভ অবস্থায় খণ্ডের আকার, মাইক মোড বা বাফারিং বদলানো যাবে না',
+  'settings.duckOnSpeech': 'কথা বললে আওয়াজ কমান',
+  'settings.missionNotes': 'মিশন নোট',
+  'settings.sessionLog': 'সেশন লগ',
+  'settings.recordings': 'রেকর্ডিং',
+  'settings.terminate': 'লগ আউট',
+
+  'profiles.title': 'অপারেটর প্রোফাইল',
+  'profiles.known': 'পরিচিত অপারেটর',
+  'profiles.switch': 'বদলান',
+  'profiles.forget': 'ভুলে যান',
+  'profiles.confirmForget': 'মুছবেন?',
+  'profiles.forgetHint': 'এই ডিভাইস থেকে প্রোফাইল ও তার সব তথ্য মুছে ফেলুন',
+  'profiles.locked': '* লাইভ অবস্থায় প্রোফাইল বদলানো যাবে না',
+
+  'settingsFile.title': 'সেটিংস স্থানান্তর',
+  'settingsFile.export': 'এক্সপোর্ট',
+  'settingsFile.import': 'ইমপোর্ট',
+  'settingsFile.hint': 'ডিভাইসের সেটিংস ও এই প্রোফাইল, একটি JSON ফাইলে',
+  'settingsFile.locked': '* লাইভ অবস্থায় সেটিংস ইমপোর্ট করা যাবে না',
+
+  'a11y.title': 'অ্যাক্সেসিবিলিটি',
+  'a11y.highContrast': 'উচ্চ কনট্রাস্ট',
+  'a11y.reduceMotion': 'অ্যানিমেশন কমান',
+  'a11y.systemReducedMotion': '* আপনার সিস্টেম সেটিংসে কম অ্যানিমেশন চালু আছে',
+  'a11y.rinuSpeaking': 'রিনু কথা বলছে',
+  'a11y.disconnected': 'লিংক বন্ধ',
+  'a11y.connecting': 'রিনুর সাথে সংযোগ হচ্ছে',
+  'a11y.connected': 'লিংক স্থাপিত',
+  'a11y.reconnecting': 'লিংক বিচ্ছিন্ন, পুনরায় সংযোগ হচ্ছে',
+  'a11y.error': 'লিংক ব্যর্থ',
+
+  'hotkeys.title': 'হটকি',
+  'hotkeys.press': 'কী চাপুন...',
+  'hotkeys.unbound': 'নির্ধারিত নয়',
+  'hotkeys.reset': 'ডিফল্টে ফেরান',
+  'hotkeys.hint': 'একটি বাইন্ডিং ক্লিক করে নতুন কী চাপুন। Esc বাতিল করে, Backspace সরিয়ে দেয়।',
+  'hotkeys.openPalette': 'কমান্ড প্যালেট',
+  'hotkeys.toggleCall': 'কল / কল শেষ',
+  'hotkeys.toggleMute': 'মিউট / আনমিউট',
+  'hotkeys.toggleVideo': 'ভিডিও চালু / বন্ধ',
+  'hotkeys.toggleScreenShare': 'স্ক্রিন শেয়ার',
+  'hotkeys.toggleFilters': 'ফিল্টার মেনু',
+  'hotkeys.togglePiP': 'পিকচার-ইন-পিকচার',
+  'hotkeys.toggleRecording': 'রেকর্ড',
+  'hotkeys.takeSnapshot': 'স্ন্যাপশট',
+  'hotkeys.toggleSidebar': 'সেটিংস প্যানেল',
+
+  'palette.placeholder': 'অ্যাকশন, ফিল্টার, থিম, মান খুঁজুন...',
+  'palette.empty': 'কিছু মেলেনি',
+  'palette.hint': '↑↓ বাছাই · ENTER চালান · ESC বন্ধ',
+  'palette.active': 'সক্রিয়',
+  'palette.action': 'অ্যাকশন',
+  'palette.filter': 'ফিল্টার',
+  'palette.theme': 'থিম',
+  'palette.quality': 'মান',
+
+  'common.preset': 'প্রিসেট',
+  'common.saveAs': 'নতুন নামে সংরক্ষণ',
+  'common.delete': 'মুছুন',
+  'common.cancel': 'বাতিল',
+  'common.close': 'বন্ধ করুন',
+  'common.reset': 'রিসেট',
+  'common.none': 'কিছু না',
+  'common.operator': 'অপারেটর',
+
+  'persona.voice': 'কণ্ঠ',
+  'persona.language': 'ভাষা',
+  'persona.instruction': 'সিস্টেম নির্দেশনা',
+  'persona.update': 'প্রিসেট আপডেট',
+  'persona.newName': 'নতুন প্রিসেটের নাম...',
+  'persona.locked': '* লাইভ অবস্থায় পারসোনা বদলানো যাবে না',
+
+  'frames.uploadRes': 'আপলোড রেজোলিউশন',
+  'frames.frameRate': 'ফ্রেম রেট',
+  'frames.motionGate': 'গতি সনাক্তকরণ',
+  'frames.bandwidthCap': 'ব্যান্ডউইথ সীমা',
+  'frames.uncapped': 'সীমাহীন',
+  'frames.gate.off': 'বন্ধ',
+  'frames.gate.low': 'কম',
+  'frames.gate.medium': 'মাঝারি',
+  'frames.gate.high': 'বেশি',
+
+  'share.send': 'পাঠান',
+  'share.insetCorner': 'ইনসেটের কোণ',
+  'share.insetSize': 'ইনসেটের আকার',
+  'share.mode.screen': 'স্ক্রিন',
+  'share.mode.pip': 'পিআইপি',
+  'share.mode.alternate': 'পালাক্রমে',
+  'share.corner.topLeft': 'উপরে বাঁয়ে',
+  'share.corner.topRight': 'উপরে ডানে',
+  'share.corner.bottomLeft': 'নিচে বাঁয়ে',
+  'share.corner.bottomRight': 'নিচে ডানে',
+  'share.pipHint': 'সরাতে ইনসেট টেনে আনুন, আকার বদলাতে তার কোণ টানুন',
+  'share.alternateHint': 'স্ক্রিন ও ক্যামেরা পালাক্রমে আলাদা ফ্রেম হিসেবে পাঠানো হয়',
+
+  'devices.camera': 'ক্যামেরা',
+  'devices.microphone': 'মাইক্রোফোন',
+  'devices.speaker': 'স্পিকার',
+  'devices.systemDefault': 'সিস্টেম ডিফল্ট',
+  'devices.disconnected': '[সংযোগ বিচ্ছিন্ন]',
+  'devices.savedMissing': '* সংরক্ষিত ডিভাইস পাওয়া যায়নি, ডিফল্ট ব্যবহার হচ্ছে',
+  'devices.speakerUnsupported': '* এই ব্রাউজারে স্পিকার বাছাই সমর্থিত নয়',
+
+  'filters.unsaved': '-- সংরক্ষিত নয় --',
+  'filters.noPresets': '-- কোনো প্রিসেট নেই --',
+  'filters.shader': 'শেডার',
+  'filters.newName': 'নতুন ফিল্টারের নাম...',
+  'filters.brightness': 'উজ্জ্বলতা',
+  'filters.contrast': 'কনট্রাস্ট',
+  'filters.saturate': 'স্যাচুরেশন',
+  'filters.hueRotate': 'হিউ',
+  'filters.grayscale': 'গ্রেস্কেল',
+  'filters.sepia': 'সেপিয়া',
+  'filters.invert': 'উল্টো রং',
+  'filters.blur': 'ঝাপসা',
+
+  'theme.edit': 'সম্পাদনা',
+  'theme.import': 'ইমপোর্ট',
+  'theme.export': 'এক্সপোর্ট',
+  'theme.exportAll': 'সব',
+  'theme.exportAllCustom': 'সব কাস্টম থিম এক্সপোর্ট',
+  'theme.editing': 'সম্পাদনা: {name}',
+  'theme.primary': 'প্রধান রং',
+  'theme.background': 'পটভূমি',
+  'theme.glow': 'আভা',
+  'theme.dim': 'ম্লান রং',
+  'theme.font': 'ফন্ট',
+  'theme.gridDensity': 'গ্রিডের ঘনত্ব',
+  'theme.scanlineIntensity': 'স্ক্যানলাইনের তীব্রতা',
+  'theme.lowContrast': 'কম কনট্রাস্ট',
+  'theme.update': 'থিম আপডেট',
+  'theme.newName': 'নতুন থিমের নাম...',
+
+  'notes.empty': 'কোনো নোট নেই',
+  'notes.delete': 'নোট মুছুন',
+  'notes.add': 'নোট যোগ করুন...',
+  'notes.clear': 'সব মুছুন',
+  'sessions.empty': 'কোনো সেশন নেই',
+  'sessions.open': 'খুলুন',
+  'sessions.turns': '{count}টি বার্তা',
+  'sessions.export': '{format} এক্সপোর্ট',
+  'recordings.empty': 'কোনো রেকর্ডিং নেই',
+  'recordings.openTranscript': 'ট্রান্সক্রিপ্ট খুলুন',
+  'recordings.log': 'লগ',
+  'snapshot.title': 'স্ন্যাপশট // চিহ্নিত করে প্রশ্ন করুন',
+  'snapshot.gallery': 'স্ন্যাপশট',
+  'snapshot.empty': 'এই সেশনে কোনো স্ন্যাপশট নেই',
+  'snapshot.tools': 'চিহ্ন দেওয়ার টুল',
+  'snapshot.box': 'বক্স',
+  'snapshot.arrow': 'তীর',
+  'snapshot.crop': 'ক্রপ',
+  'snapshot.undo': 'আগের অবস্থা',
+  'snapshot.clear': 'মুছুন',
+  'snapshot.canvas': 'থামানো ফ্রেম। বেছে নেওয়া টুল দিয়ে আঁকতে টেনে নিন।',
+  'snapshot.question': 'এই ফ্রেম নিয়ে প্রশ্ন',
+  'snapshot.questionPlaceholder': 'প্রশ্ন লিখুন (অথবা ফাঁকা রেখে মুখে জিজ্ঞাসা করুন)',
+  'snapshot.voiceHint': '* কোনো প্রশ্ন লেখা নেই: আগে ছবি যাবে, তারপর রিনুকে মুখে জিজ্ঞাসা করুন',
+  'snapshot.send': 'পাঠান',
+  'snapshot.sendAndSpeak': 'পাঠান ও মুখে জিজ্ঞাসা করুন',
+  'snapshot.askedByVoice': '(মুখে জিজ্ঞাসা করা)',
+  'snapshot.open': 'পূর্ণ আকারে খুলুন',
+  'transcript.title': 'ট্রান্সক্রিপ্ট',
+  'transcript.rinu': 'রিনু',
+  'transcript.entries': '{count}টি এন্ট্রি',
+  'transcript.awaiting': 'অডিওর অপেক্ষায়...',
+  'tools.title': 'এআই কার্যক্রম',
+
+  'error.attemptsLeft': 'আর {count} বার চেষ্টা করা যাবে',
+  'error.AUTH_FAILED': 'প্রমাণীকরণ ব্যর্থ',
+  'error.AUTH_SERVER_UNREACHABLE': 'অথ সার্ভারে পৌঁছানো যাচ্ছে না',
+  'error.AUTH_SERVER_ERROR': 'অথ সার্ভারে ত্রুটি',
+  'error.PAYLOAD_TOO_LARGE': 'অনুরোধটি খুব বড়',
+  'error.MALFORMED_REQUEST': 'অনুরোধের ফরম্যাট ভুল',
+  'error.INVALID_NUMBER_FORMAT': 'ফোন নম্বরের ফরম্যাট ভুল',
+  'error.INVALID_ACCESS_CODE': 'অ্যাক্সেস কোড ভুল',
+  'error.OTP_RESEND_COOLDOWN': 'আবার কোড পাঠানোর আগে একটু অপেক্ষা করুন',
+  'error.OTP_NOT_REQUESTED': 'আগে একটি কোড চান',
+  'error.OTP_EXPIRED': 'কোডের মেয়াদ শেষ',
+  'error.OTP_ATTEMPTS_EXCEEDED': 'অনেকবার ভুল চেষ্টা হয়েছে',
+  'error.SESSION_EXPIRED': 'সেশনের মেয়াদ শেষ, আবার লগ ইন করুন',
+  'error.LIVE_TOKEN_BROKER_UNSET': 'টোকেন সার্ভার কনফিগার করা নেই',
+  'error.LIVE_TOKEN_BROKER_UNREACHABLE': 'টোকেন সার্ভারে পৌঁছানো যাচ্ছে না',
+  'error.LIVE_TOKEN_REFUSED': 'টোকেন দেওয়া হয়নি',
+  'error.LIVE_TOKEN_RATE_LIMITED': 'অনেক বেশি অনুরোধ, একটু পরে চেষ্টা করুন',
+  'error.LIVE_TOKEN_UPSTREAM_ERROR': 'লাইভ পরিষেবা টোকেন দিতে পারেনি',
+  'error.LIVE_KEY_NOT_CONFIGURED': 'সার্ভারে API কী সেট করা নেই',
+  'error.CONNECTION_FAILED_RETRY': 'সংযোগ ব্যর্থ, আবার চেষ্টা করুন',
+  'error.UPLINK_FAILURE_DETECTED': 'আপলিংকে সমস্যা',
+  'error.CAMERA_ACCESS_DENIED': 'ক্যামেরা ব্যবহারের অনুমতি নেই',
+  'error.AUDIO_CAPTURE_FAILURE': 'অডিও ধারণ ব্যর্থ',
+  'error.CAMERA_DEVICE_MISSING': 'নির্বাচিত ক্যামেরা পাওয়া যায়নি',
+  'error.MIC_DEVICE_MISSING': 'নির্বাচিত মাইক পাওয়া যায়নি',
+  'error.SPEAKER_DEVICE_MISSING': 'নির্বাচিত স্পিকার পাওয়া যায়নি',
+  'error.CAMERA_DEVICE_DISCONNECTED': 'ক্যামেরার সংযোগ বিচ্ছিন্ন',
+  'error.MIC_DEVICE_DISCONNECTED': 'মাইকের সংযোগ বিচ্ছিন্ন',
+  'error.SPEAKER_DEVICE_DISCONNECTED': 'স্পিকারের সংযোগ বিচ্ছিন্ন',
+  'error.SPEAKER_SWITCH_FAILED': 'স্পিকার বদলানো যায়নি',
+  'error.RECORDING_UNSUPPORTED': 'এই ব্রাউজারে রেকর্ডিং সমর্থিত নয়',
+  'error.RECORDING_FAILED': 'রেকর্ডিং ব্যর্থ',
+  'error.PIP_MODULE_ERROR': 'পিকচার-ইন-পিকচার চালু করা যায়নি',
+  'error.WEBGL_UNAVAILABLE': 'WebGL পাওয়া যাচ্ছে না',
+  'error.SHADER_FAILED': 'শেডার ফিল্টার ব্যর্থ',
+  'error.THEME_FILE_MALFORMED': 'থিম ফাইল পড়া যাচ্ছে না',
+  'error.THEME_FILE_INVALID': 'থিম ফাইলটি সঠিক নয়',
+  'error.THEME_FILE_UNSUPPORTED': 'থিম ফাইলের সংস্করণ সমর্থিত নয়',
+  'error.THEME_IMPORT_FAILED': 'থিম ইমপোর্ট ব্যর্থ',
+  'error.SETTINGS_FILE_MALFORMED': 'সেটিংস ফাইল পড়া যাচ্ছে না',
+  'error.SETTINGS_FILE_INVALID': 'সেটিংস ফাইলটি সঠিক নয়',
+  'error.SETTINGS_FILE_UNSUPPORTED': 'সেটিংস ফাইলের সংস্করণ সমর্থিত নয়',
+  'error.SETTINGS_IMPORT_FAILED': 'সেটিংস ইমপোর্ট ব্যর্থ',
+  'error.SNAPSHOT_NO_FRAME': 'স্ন্যাপশটের জন্য কোনো ফ্রেম নেই',
+  'error.SNAPSHOT_FAILED': 'স্ন্যাপশট পাঠানো যায়নি',
+};
@@ -0,0 +1,319 @@
+// English catalog, the fallback for every other language. Keys are grouped by screen;
+// {name} placeholders are filled by the translator (numbers are locale-formatted).
+
+export const en = {
+  // Auth screen
+  'auth.title': 'RINU_SYSTEM',
+  'auth.required': 'AUTHENTICATION_REQUIRED',
+  'auth.awaitingCode': 'AWAITING_ACCESS_CODE',
+  'auth.deviceId': 'DEVICE_ID',
+  'auth.processing': 'PROCESSING...',
+  'auth.initiate': 'INITIATE_HANDSHAKE',
+  'auth.encryptionKey': 'ENCRYPTION_KEY',
+  'auth.decrypting': 'DECRYPTING...',
+  'auth.access': 'ACCESS_SYSTEM',
+  'auth.resendIn': 'RESEND_AVAILABLE_IN {seconds}S',
+  'auth.resend': 'RESEND_ACCESS_CODE',
+  'auth.abort': 'ABORT_SEQUENCE',
+  'auth.errorPrefix': 'ERROR',
+
+  // HUD
+  'hud.menu': 'MENU',
+  'hud.live': 'LIVE',
+  'hud.reconnectingIn': 'RECONNECTING T-{seconds}s',
+  'hud.reconnecting': 'RECONNECTING...',
+  'hud.muted': 'MUTED',
+  'hud.mic': 'MIC',
+  'hud.micLevel': 'MIC_LEVEL',
+  'hud.transmitting': 'TRANSMITTING',
+  'hud.micGated': 'MIC_GATED',
+  'hud.framesSent': 'FRAMES_SENT {sent} / SKIPPED {skipped}',
+  'hud.tx': 'TX {kbps}KBPS',
+  'hud.underruns': 'PLAYBACK_UNDERRUNS',
+  'hud.rxGap': 'RX_GAP x{count}',
+  'hud.rec': 'REC',
+  'hud.screen': 'SCREEN',
+  'hud.profile': 'USER_PROFILE',
+  'hud.noSignal': 'NO_SIGNAL',
+  'hud.alert': 'ALERT',
+  'hud.archive': 'ARCHIVE // {date}',
+  'hud.version': 'SYSTEM_VERSION 2.0.5 | SECURE_CHANNEL',
+  'hud.poweredBy': 'POWERED_BY_GEMINI_NEURAL_NET',
+  'hud.mockUplink': 'MOCK_UPLINK // OFFLINE_DEV',
+
+  // Controls
+  'controls.holdToTalk': 'HOLD_TO_TALK [SPACE]',
+  'controls.mute': 'MUTE',
+  'controls.unmute': 'UNMUTE',
+  'controls.videoOn': 'ENABLE_VIDEO',
+  'controls.videoOff': 'DISABLE_VIDEO',
+  'controls.call': 'START_LINK',
+  'controls.hangUp': 'END_LINK',
+  'controls.shareScreen': 'SHARE_SCREEN',
+  'controls.stopSharing': 'STOP_SHARING',
+  'controls.filters': 'FILTERS',
+  'controls.record': 'RECORD_CALL',
+  'controls.stopRecording': 'STOP_RECORDING',
+  'controls.snapshot': 'SNAPSHOT',
+  'controls.volume': 'VOLUME',
+  'controls.vol': 'VOL',
+  'controls.minimize': 'MINIMIZE',
+  'controls.commandPlaceholder': 'TYPE_MESSAGE... (SHIFT+ENTER = NEWLINE)',
+  'controls.uplinkOffline': 'UPLINK_OFFLINE',
+
+  // Sidebar
+  'settings.title': 'SETTINGS',
+  'settings.operator': 'OPERATOR',
+  'settings.setAlias': 'SET_ALIAS...',
+  'settings.updateId': 'UPDATE_ID',
+  'settings.persona': 'PERSONA',
+  'settings.appearance': 'APPEARANCE',
+  'settings.visualizer': 'VISUALIZER',
+  'settings.grid': 'HACKER_GRID',
+  'settings.scanlines': 'SCANLINES',
+  'settings.language': 'LANGUAGE',
+  'settings.replyInLanguage': 'RINU_REPLIES_IN_LANGUAGE',
+  'settings.replyNextLink': '* Reply language takes effect on the next link',
+  'settings.filterLab': 'FILTER_LAB',
+  'settings.videoConfig': 'VIDEO_CONFIG',
+  'settings.qualitySd': 'STANDARD (480p)',
+  'settings.qualityHd': 'HIGH_DEF (720p)',
+  'settings.qualityUhd': 'ULTRA_HD (2160p)',
+  'settings.videoLocked': '* Cannot change video settings while live',
+  'settings.screenShare': 'SCREEN_SHARE',
+  'settings.devices': 'DEVICES',
+  'settings.audioConfig': 'AUDIO_CONFIG',
+  'settings.uplinkChunk': 'UPLINK_CHUNK',
+  'settings.chunkOption': '{ms} ms ({samples} samples)',
+  'settings.micMode': 'MIC_MODE',
+  'settings.micAlways': 'ALWAYS_ON',
+  'settings.micPtt': 'PUSH_TO_TALK [SPACE]',
+  'settings.micVad': 'VOICE_GATED (VAD)',
+  'settings.jitterBuffer': 'JITTER_BUFFER',
+  'settings.off': 'OFF',
+  'settings.audioLocked': '* Cannot change chunk size, mic mode or buffering while live',
+  'settings.duckOnSpeech': 'DUCK_ON_SPEECH',
+  'settings.missionNotes': 'MISSION_NOTES',
+  'settings.sessionLog': 'SESSION_LOG',
+  'settings.recordings': 'RECORDINGS',
+  'settings.terminate': 'TERMINATE',
+
+  // Profiles
+  'profiles.title': 'OPERATOR_PROFILES',
+  'profiles.known': 'KNOWN_OPERATORS',
+  'profiles.switch': 'SWITCH',
+  'profiles.forget': 'FORGET',
+  'profiles.confirmForget': 'ERASE?',
+  'profiles.forgetHint': 'Remove this profile and all of its data from this device',
+  'profiles.locked': '* Cannot switch profiles while live',
+
+  'settingsFile.title': 'SETTINGS_TRANSFER',
+  'settingsFile.export': 'EXPORT',
+  'settingsFile.import': 'IMPORT',
+  'settingsFile.hint': 'Device settings plus this profile, as one JSON file',
+  'settingsFile.locked': '* Cannot import settings while live',
+
+  'a11y.title': 'ACCESSIBILITY',
+  'a11y.highContrast': 'HIGH_CONTRAST',
+  'a11y.reduceMotion': 'REDUCE_MOTION',
+  'a11y.systemReducedMotion': '* Reduced motion is on in your system settings',
+  'a11y.rinuSpeaking': 'Rinu is speaking',
+  'a11y.disconnected': 'Link offline',
+  'a11y.connecting': 'Connecting to Rinu',
+  'a11y.connected': 'Link established',
+  'a11y.reconnecting': 'Link lost, reconnecting',
+  'a11y.error': 'Link failed',
+
+  'hotkeys.title': 'HOTKEYS',
+  'hotkeys.press': 'PRESS_KEYS...',
+  'hotkeys.unbound': 'UNBOUND',
+  'hotkeys.reset': 'RESET_DEFAULTS',
+  'hotkeys.hint': 'Click a binding, then press the new keys. Esc cancels, Backspace unbinds.',
+  'hotkeys.openPalette': 'COMMAND_PALETTE',
+  'hotkeys.toggleCall': 'CALL / HANG_UP',
+  'hotkeys.toggleMute': 'MUTE / UNMUTE',
+  'hotkeys.toggleVideo': 'VIDEO_ON / OFF',
+  'hotkeys.toggleScreenShare': 'SCREEN_SHARE',
+  'hotkeys.toggleFilters': 'FILTER_MENU',
+  'hotkeys.togglePiP': 'PICTURE_IN_PICTURE',
+  'hotkeys.toggleRecording': 'RECORD',
+  'hotkeys.takeSnapshot': 'SNAPSHOT',
+  'hotkeys.toggleSidebar': 'SETTINGS_PANEL',
+
+  'palette.placeholder': 'search actions, filters, themes, quality...',
+  'palette.empty': 'NO_MATCHES',
+  'palette.hint': '↑↓ SELECT · ENTER RUN · ESC CLOSE',
+  'palette.active': 'ACTIVE',
+  'palette.action': 'ACTION',
+  'palette.filter': 'FILTER',
+  'palette.theme': 'THEME',
+  'palette.quality': 'QUALITY',
+
+  // Shared editor bits
+  'common.preset': 'PRESET',
+  'common.saveAs': 'SAVE_AS',
+  'common.delete': 'DEL',
+  'common.cancel': 'CANCEL',
+  'common.close': 'CLOSE',
+  'common.reset': 'RESET',
+  'common.none': 'NONE',
+  'common.operator': 'OPERATOR',
+
+  // Persona
+  'persona.voice': 'VOICE',
+  'persona.language': 'LANGUAGE',
+  'persona.instruction': 'SYSTEM_INSTRUCTION',
+  'persona.update': 'UPDATE_PRESET',
+  'persona.newName': 'NEW_PRESET_NAME...',
+  'persona.locked': '* Cannot change persona while live',
+
+  // Frame upload
+  'frames.uploadRes': 'UPLOAD_RES',
+  'frames.frameRate': 'FRAME_RATE',
+  'frames.motionGate': 'MOTION_GATE',
+  'frames.bandwidthCap': 'BANDWIDTH_CAP',
+  'frames.uncapped': 'UNCAPPED',
+  'frames.gate.off': 'OFF',
+  'frames.gate.low': 'LOW',
+  'frames.gate.medium': 'MED',
+  'frames.gate.high': 'HIGH',
+
+  // Screen share
+  'share.send': 'SEND',
+  'share.insetCorner': 'INSET_CORNER',
+  'share.insetSize': 'INSET_SIZE',
+  'share.mode.screen': 'SCREEN',
+  'share.mode.pip': 'PIP',
+  'share.mode.alternate': 'ALTERNATE',
+  'share.corner.topLeft': 'TL',
+  'share.corner.topRight': 'TR',
+  'share.corner.bottomLeft': 'BL',
+  'share.corner.bottomRight': 'BR',
+  'share.pipHint': 'DRAG THE INSET TO MOVE IT, ITS CORNER TO RESIZE',
+  'share.alternateHint': 'SCREEN AND CAMERA ARE SENT AS SEPARATE FRAMES IN TURN',
+
+  // Devices
+  'devices.camera': 'CAMERA',
+  'devices.microphone': 'MICROPHONE',
+  'devices.speaker': 'SPEAKER',
+  'devices.systemDefault': 'SYSTEM_DEFAULT',
+  'devices.disconnected': '[DISCONNECTED]',
+  'devices.savedMissing': '* Saved device not found, using default',
+  'devices.speakerUnsupported': '* Speaker selection not supported by this browser',
+
+  // Filters
+  'filters.unsaved': '-- UNSAVED --',
+  'filters.noPresets': '-- NO_PRESETS --',
+  'filters.shader': 'SHADER',
+  'filters.newName': 'NEW_FILTER_NAME...',
+  'filters.brightness': 'BRIGHTNESS',
+  'filters.contrast': 'CONTRAST',
+  'filters.saturate': 'SATURATION',
+  'filters.hueRotate': 'HUE',
+  'filters.grayscale': 'GRAYSCALE',
+  'filters.sepia': 'SEPIA',
+  'filters.invert': 'INVERT',
+  'filters.blur': 'BLUR',
+
+  // Themes
+  'theme.edit': 'EDIT',
+  'theme.import': 'IMPORT',
+  'theme.export': 'EXPORT',
+  'theme.exportAll': 'ALL',
+  'theme.exportAllCustom': 'EXPORT_ALL_CUSTOM',
+  'theme.editing': 'EDITING: {name}',
+  'theme.primary': 'PRIMARY',
+  'theme.background': 'BACKGROUND',
+  'theme.glow': 'GLOW',
+  'theme.dim': 'DIM',
+  'theme.font': 'FONT',
+  'theme.gridDensity': 'GRID_DENSITY',
+  'theme.scanlineIntensity': 'SCANLINE_INTENSITY',
+  'theme.lowContrast': 'LOW_CONTRAST',
+  'theme.update': 'UPDATE_THEME',
+  'theme.newName': 'NEW_THEME_NAME...',
+
+  // Notes, history, recordings, transcript, tools
+  'notes.empty': 'NO_NOTES_RECORDED',
+  'notes.delete': 'DELETE_NOTE',
+  'notes.add': 'ADD_NOTE...',
+  'notes.clear': 'CLEAR',
+  'sessions.empty': 'NO_SESSIONS_LOGGED',
+  'sessions.open': 'OPEN',
+  'sessions.turns': '{count} TURNS',
+  'sessions.export': 'EXPORT_{format}',
+  'recordings.empty': 'NO_RECORDINGS',
+  'recordings.openTranscript': 'OPEN_TRANSCRIPT',
+  'recordings.log': 'LOG',
+  'snapshot.title': 'SNAPSHOT // MARK_AND_ASK',
+  'snapshot.gallery': 'SNAPSHOTS',
+  'snapshot.empty': 'NO_SNAPSHOTS_THIS_SESSION',
+  'snapshot.tools': 'Annotation tools',
+  'snapshot.box': 'BOX',
+  'snapshot.arrow': 'ARROW',
+  'snapshot.crop': 'CROP',
+  'snapshot.undo': 'UNDO',
+  'snapshot.clear': 'CLEAR',
+  'snapshot.canvas': 'Frozen frame. Drag to draw with the selected tool.',
+  'snapshot.question': 'Question about this frame',
+  'snapshot.questionPlaceholder': 'TYPE_A_QUESTION (OR LEAVE EMPTY AND ASK OUT LOUD)',
+  'snapshot.voiceHint': '* No question typed: the image is sent first, then ask Rinu out loud',
+  'snapshot.send': 'SEND',
+  'snapshot.sendAndSpeak': 'SEND_AND_ASK_BY_VOICE',
+  'snapshot.askedByVoice': '(asked by voice)',
+  'snapshot.open': 'Open full size',
+  'transcript.title': 'TRANSCRIPT_LOG',
+  'transcript.rinu': 'RINU',
+  'transcript.entries': '{count} ENTRIES',
+  'transcript.awaiting': 'AWAITING_AUDIO...',
+  'tools.title': 'AI_ACTIONS',
+
+  // Errors, keyed by the codes passed to setErrorMsg
+  'error.attemptsLeft': '{count}_ATTEMPTS_LEFT',
+  'error.AUTH_FAILED': 'AUTH_FAILED',
+  'error.AUTH_SERVER_UNREACHABLE': 'AUTH_SERVER_UNREACHABLE',
+  'error.AUTH_SERVER_ERROR': 'AUTH_SERVER_ERROR',
+  'error.PAYLOAD_TOO_LARGE': 'PAYLOAD_TOO_LARGE',
+  'error.MALFORMED_REQUEST': 'MALFORMED_REQUEST',
+  'error.INVALID_NUMBER_FORMAT': 'INVALID_NUMBER_FORMAT',
+  'error.INVALID_ACCESS_CODE': 'INVALID_ACCESS_CODE',
+  'error.OTP_RESEND_COOLDOWN': 'OTP_RESEND_COOLDOWN',
+  'error.OTP_NOT_REQUESTED': 'OTP_NOT_REQUESTED',
+  'error.OTP_EXPIRED': 'OTP_EXPIRED',
+  'error.OTP_ATTEMPTS_EXCEEDED': 'OTP_ATTEMPTS_EXCEEDED',
+  'error.SESSION_EXPIRED': 'SESSION_EXPIRED',
+  'error.LIVE_TOKEN_BROKER_UNSET': 'LIVE_TOKEN_BROKER_UNSET',
+  'error.LIVE_TOKEN_BROKER_UNREACHABLE': 'LIVE_TOKEN_BROKER_UNREACHABLE',
+  'error.LIVE_TOKEN_REFUSED': 'LIVE_TOKEN_REFUSED',
+  'error.LIVE_TOKEN_RATE_LIMITED': 'LIVE_TOKEN_RATE_LIMITED',
+  'error.LIVE_TOKEN_UPSTREAM_ERROR': 'LIVE_TOKEN_UPSTREAM_ERROR',
+  'error.LIVE_KEY_NOT_CONFIGURED': 'LIVE_KEY_NOT_CONFIGURED',
+  'error.CONNECTION_FAILED_RETRY': 'CONNECTION_FAILED_RETRY',
+  'error.UPLINK_FAILURE_DETECTED': 'UPLINK_FAILURE_DETECTED',
+  'error.CAMERA_ACCESS_DENIED': 'CAMERA_ACCESS_DENIED',
+  'error.AUDIO_CAPTURE_FAILURE': 'AUDIO_CAPTURE_FAILURE',
+  'error.CAMERA_DEVICE_MISSING': 'CAMERA_DEVICE_MISSING',
+  'error.MIC_DEVICE_MISSING': 'MIC_DEVICE_MISSING',
+  'error.SPEAKER_DEVICE_MISSING': 'SPEAKER_DEVICE_MISSING',
+  'error.CAMERA_DEVICE_DISCONNECTED': 'CAMERA_DEVICE_DISCONNECTED',
+  'error.MIC_DEVICE_DISCONNECTED': 'MIC_DEVICE_DISCONNECTED',
+  'error.SPEAKER_DEVICE_DISCONNECTED': 'SPEAKER_DEVICE_DISCONNECTED',
+  'error.SPEAKER_SWITCH_FAILED': 'SPEAKER_SWITCH_FAILED',
+  'error.RECORDING_UNSUPPORTED': 'RECORDING_UNSUPPORTED',
+  'error.RECORDING_FAILED': 'RECORDING_FAILED',
+  'error.PIP_MODULE_ERROR': 'PIP_MODULE_ERROR',
+  'error.WEBGL_UNAVAILABLE': 'WEBGL_UNAVAILABLE',
+  'error.SHADER_FAILED': 'SHADER_FAILED',
+  'error.THEME_FILE_MALFORMED': 'THEME_FILE_MALFORMED',
+  'error.THEME_FILE_INVALID': 'THEME_FILE_INVALID',
+  'error.THEME_FILE_UNSUPPORTED': 'THEME_FILE_UNSUPPORTED',
+  'error.THEME_IMPORT_FAILED': 'THEME_IMPORT_FAILED',
+  'error.SETTINGS_FILE_MALFORMED': 'SETTINGS_FILE_MALFORMED',
+  'error.SETTINGS_FILE_INVALID': 'SETTINGS_FILE_INVALID',
+  'error.SETTINGS_FILE_UNSUPPORTED': 'SETTINGS_FILE_UNSUPPORTED',
+  'error.SETTINGS_IMPORT_FAILED': 'SETTINGS_IMPORT_FAILED',
+  'error.SNAPSHOT_NO_FRAME': 'SNAPSHOT_NO_FRAME',
+  'error.SNAPSHOT_FAILED': 'SNAPSHOT_FAILED',
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,302 @@
+import { MessageKey } from './en';
+
+export const hi: Record<MessageKey, string> = {
+  'auth.title': 'रिनु सिस्टम',
+  'auth.required': 'प्रमाणीकरण आवश्यक',
+  'auth.awaitingCode': 'एक्सेस कोड की प्रतीक्षा',
+  'auth.deviceId': 'फ़ोन नंबर',
+  'auth.processing': 'प्रक्रिया जारी है...',
+  'auth.initiate': 'कनेक्शन शुरू करें',
+  'auth.encryptionKey': 'एक्सेस कोड',
+  'auth.decrypting': 'सत्यापन हो रहा है...',
+  'auth.access': 'प्रवेश करें',
+  'auth.resendIn': '{seconds} सेकंड बाद दोबारा भेज सकते हैं',
+  'auth.resend': 'कोड दोबारा भेजें',
+  'auth.abort': 'रद्द करें',
+  'auth.errorPrefix': 'त्रुटि',
+
+  'hud.menu': 'मेनू',
+  'hud.live': 'लाइव',
+  'hud.reconnectingIn': '{seconds} सेकंड में पुनः कनेक्ट',
+  'hud.reconnecting': 'पुनः कनेक्ट हो रहा है...',
+  'hud.muted': 'म्यूट',
+  'hud.mic': 'माइक',
+  'hud.micLevel': 'माइक स्तर',
+  'hud.transmitting': 'भेजा जा रहा है',
+  'hud.micGated': 'माइक बंद',
+  'hud.framesSent': 'भेजे गए फ़्रेम {sent} / छोड़े गए {skipped}',
+  'hud.tx': 'TX {kbps} KBPS',
+  'hud.underruns': 'प्लेबैक में रुकावट',
+  'hud.rxGap': 'RX रुकावट x{count}',
+  'hud.rec': 'रिकॉर्ड',
+  'hud.screen': 'स्क्रीन',
+  'hud.profile': 'उपयोगकर्ता प्रोफ़ाइल',
+  'hud.noSignal': 'कोई सिग्नल नहीं',
+  'hud.alert': 'चेतावनी',
+  'hud.archive': 'संग्रह // {date}',
+  'hud.version': 'सिस्टम संस्करण 2.0.5 | सुरक्षित चैनल',
+  'hud.poweredBy': 'जेमिनी द्वारा संचालित',
+  'hud.mockUplink': 'मॉक अपलिंक // ऑफ़लाइन डेव',
+
+  'controls.holdToTalk': 'बोलने के लिए दबाए रखें [SPACE]',
+  'controls.mute': 'म्यूट',
+  'controls.unmute': 'अनम्यूट',
+  'controls.videoOn': 'वीडियो चालू',
+  'controls.videoOff': 'वीडियो बंद',
+  'controls.call': 'कनेक्शन शुरू',
+  'controls.hangUp': 'कनेक्शन समाप्त',
+  'controls.shareScreen': 'स्क्रीन शेयर',
+  'controls.stopSharing': 'शेयर बंद करें',
+  'controls.filters': 'फ़िल्टर',
+  'controls.record': 'कॉल रिकॉर्ड करें',
+  'controls.stopRecording': 'रिकॉर्डिंग बंद करें',
+  'controls.snapshot': 'स्नैपशॉट',
+  'controls.volume': 'वॉल्यूम',
+  'controls.vol': 'वॉल्यूम',
+  'controls.minimize': 'छोटा करें',
+  'controls.commandPlaceholder': 'संदेश लिखें... (SHIFT+ENTER = नई पंक्ति)',
+  'controls.uplinkOffline': 'अपलिंक ऑफ़लाइन',
+
+  'settings.title': 'सेटिंग्स',
+  'settings.operator': 'ऑपरेटर',
+  'settings.setAlias': 'उपनाम दें...',
+  'settings.updateId': 'अपडेट करें',
+  'settings.persona': 'पर्सोना',
+  'settings.appearance': 'रूप-रंग',
+  'settings.visualizer': 'विज़ुअलाइज़र',
+  'settings.grid': 'ग्रिड',
+  'settings.scanlines': 'स्कैनलाइन',
+  'settings.language': 'भाषा',
+  'settings.replyInLanguage': 'रिनु इसी भाषा में जवाब दे',
+  'settings.replyNextLink': '* जवाब की भाषा अगले कनेक्शन से लागू होगी',
+  'settings.filterLab': 'फ़िल्टर लैब',
+  'settings.videoConfig': 'वीडियो सेटिंग्स',
+  'settings.qualitySd': 'स्टैंडर्ड (480p)',
+  'settings.qualityHd': 'एचडी (720p)',
+  'settings.qualityUhd': 'अल्ट्रा एचडी (2160p)',
+  'settings.videoLocked': '* लाइव रहते हुए वीडियो सेटिंग्स नहीं बदली जा सकतीं',
+  'settings.screenShare': 'स्क्रीन शेयर',
+  'settings.devices': 'डिवाइस',
+  'settings.audioConfig': 'ऑडियो सेटिंग्स',
+  'settings.uplinkChunk': 'अपलिंक खंड',
+  'settings.chunkOption': '{ms} मि.से. ({samples} सैंपल)',
+  'settings.micMode': 'माइक मोड',
+  'settings.micAlways': 'हमेशा चालू',
+  'settings.micPtt': 'दबाकर बोलें [SPACE]',
+  'settings.micVad': 'आवाज़ से चालू (VAD)',
+  'settings.jitterBuffer': 'जिटर बफ़र',
+  'settings.off': 'बंद',
+  'settings.audioLocked': '* लाइव रहते हुए खंड आकार, माइक मोड या बफ़रिंग नहीं बदली जा सकती',
+  'settings.duckOnSpeech': 'बोलते समय आवाज़ कम करें',
+  'settings.missionNotes': 'मिशन नोट्स',
+  'settings.sessionLog': 'सत्र लॉग',
+  'settings.recordings': 'रिकॉर्डिंग',
+  'settings.terminate': 'लॉग आउट',
+
+  'profiles.title': 'ऑपरेटर प्रोफ़ाइल',
+  'profiles.known': 'ज्ञात ऑपरेटर',
+  'profiles.switch': 'बदलें',
+  'profiles.forget': 'भूल जाएँ',
+  'profiles.confirmForget': 'मिटाएँ?',
+  'profiles.forgetHint': 'इस डिवाइस से प्रोफ़ाइल और उसका सारा डेटा हटाएँ',
+  'profiles.locked': '* लाइव रहते हुए प्रोफ़ाइल नहीं बदली जा सकती',
+
+  'settingsFile.title': 'सेटिंग्स स्थानांतरण',
+  'settingsFile.export': 'एक्सपोर्ट',
+  'settingsFile.import': 'इम्पोर्ट',
+  'settingsFile.hint': 'डिवाइस की सेटिंग्स और यह प्रोफ़ाइल, एक JSON फ़ाइल में',
+  'settingsFile.locked': '* लाइव रहते हुए सेटिंग्स इम्पोर्ट नहीं की जा सकतीं',
+
+  'a11y.title': 'सुलभता',
+  'a11y.highContrast': 'उच्च कंट्रास्ट',
+  'a11y.reduceMotion': 'एनिमेशन कम करें',
+  'a11y.systemReducedMotion': '* आपकी सिस्टम सेटिंग्स में कम एनिमेशन चालू है',
+  'a11y.rinuSpeaking': 'रिनु का जवाब चल रहा है',
+  'a11y.disconnected': 'लिंक बंद',
+  'a11y.connecting': 'रिनु से जुड़ रहे हैं',
+  'a11y.connected': 'लिंक स्थापित',
+  'a11y.reconnecting': 'लिंक टूटा, फिर से जुड़ रहे हैं',
+  'a11y.error': 'लिंक विफल',
+
+  'hotkeys.title': 'हॉटकी',
+  'hotkeys.press': 'कुंजियाँ दबाएँ...',
+  'hotkeys.unbound': 'निर्धारित नहीं',
+  'hotkeys.reset': 'डिफ़ॉल्ट पर लौटाएँ',
+  'hotkeys.hint': 'किसी बाइंडिंग पर क्लिक करें, फिर नई कुंजियाँ दबाएँ। Esc रद्द करता है, Backspace हटाता है।',
+  'hotkeys.openPalette': 'कमांड पैलेट',
+  'hotkeys.toggleCall': 'कॉल / कॉल समाप्त',
+  'hotkeys.toggleMute': 'म्यूट / अनम्यूट',
+  'hotkeys.toggleVideo': 'वीडियो चालू / बंद',
+  'hotkeys.toggleScreenShare': 'स्क्रीन शेयर',
+  'hotkeys.toggleFilters': 'फ़िल्टर मेनू',
+  'hotkeys.togglePiP': 'पिक्चर-इन-पिक्चर',
+  'hotkeys.toggleRecording': 'रिकॉर्ड',
+  'hotkeys.takeSnapshot': 'स्नैपशॉट',
+  'hotkeys.toggleSidebar': 'सेटिंग्स पैनल',
+
+  'palette.placeholder': 'एक्शन, फ़िल्टर, थीम, गुणवत्ता खोजें...',
+  'palette.empty': 'कोई मेल नहीं',
+  'palette.hint': '↑↓ चुनें · ENTER चलाएँ · ESC बंद',
+  'palette.active': 'सक्रिय',
+  'palette.action': 'एक्शन',
+  'palette.filter': 'फ़िल्टर',
+  'palette.theme': 'थीम',
+  'palette.quality': 'गुणवत्ता',
+
+  'common.preset': 'प्रीसेट',
+  'common.saveAs': 'नए नाम से सहेजें',
+  'common.delete': 'हटाएँ',
+  'common.cancel': 'रद्द करें',
+  'common.close': 'बंद करें',
+  'common.reset': 'रीसेट',
+  'common.none': 'कोई नहीं',
+  'common.operator': 'ऑपरेटर',
+
+  'persona.voice': 'आवाज़',
+  'persona.language': 'भाषा',
+  'persona.instruction': 'सिस्टम निर्देश',
+  'persona.update': 'प्रीसेट अपडेट करें',
+  'persona.newName': 'नए प्रीसेट का नाम...',
+  'persona.locked': '* लाइव रहते हुए पर्सोना नहीं बदला जा सकता',
+
+  'frames.uploadRes': 'अपलोड रिज़ॉल्यूशन',
+  'frames.frameRate': 'फ़्रेम रेट',
+  'frames.motionGate': 'गति पहचान',
+  'frames.bandwidthCap': 'बैंडविड्थ सीमा',
+  'frames.uncapped': 'असीमित',
+  'frames.gate.off': 'बंद',
+  'frames.gate.low': 'कम',
+  'frames.gate.medium': 'मध्यम',
+  'frames.gate.high': 'अधिक',
+
+  'share.send': 'भेजें',
+  'share.insetCorner': 'इनसेट कोना',
+  'share.insetSize': 'इनसेट आकार',
+  'share.mode.screen': 'स्क्रीन',
+  'share.mode.pip': 'पीआईपी',
+  'share.mode.alternate': 'बारी-बारी',
+  'share.corner.topLeft': 'ऊपर बाएँ',
+  'share.corner.topRight': 'ऊपर दाएँ',
+  'share.corner.bottomLeft': 'नीचे बाएँ',
+  'share.corner.bottomRight': 'नीचे दाएँ',
+  'share.pipHint': 'खिसकाने के लिए इनसेट खींचें, आकार बदलने के लिए उसका कोना खींचें',
+  'share.alternateHint': 'स्क्रीन और कैमरा बारी-बारी से अलग फ़्रेम के रूप में भेजे जाते हैं',
+
+  'devices.camera': 'कैमरा',
+  'devices.microphone': 'माइक्रोफ़ोन',
+  'devices.speaker': 'स्पीकर',
+  'devices.systemDefault': 'सिस्टम डिफ़ॉल्ट',
+  'devices.disconnected': '[डिस्कनेक्ट]',
+  'devices.savedMissing': '* सहेजा गया डिवाइस नहीं मिला, डिफ़ॉल्ट उपयोग हो रहा है',
+  'devices.speakerUnsupported': '* इस ब्राउज़र में स्पीकर चुनना समर्थित नहीं',
+
+  'filters.unsaved': '-- सहेजा नहीं गया --',
+  'filters.noPresets': '-- कोई प्रीसेट नहीं --',
+  'filters.shader': 'शेडर',
+  'filters.newName': 'नए फ़िल्टर का नाम...',
+  'filters.brightness': 'चमक',
+  'filters.contrast': 'कंट्रास्ट',
+  'filters.saturate': 'संतृप्ति',
+  'filters.hueRotate': 'ह्यू',
+  'filters.grayscale': 'ग्रेस्केल',
+  'filters.sepia': 'सीपिया',
+  'filters.invert': 'उलटे रंग',
+  'filters.blur': 'धुंधलापन',
+
+  'theme.edit': 'संपादित करें',
+  'theme.import': 'इम्पोर्ट',
+  'theme.export': 'एक्सपोर्ट',
+  'theme.exportAll': 'सभी',
+  'theme.exportAllCustom': 'सभी कस्टम थीम एक्सपोर्ट करें',
+  'theme.editing': 'संपादन: {name}',
+  'theme.primary': 'मुख्य रंग',
+  'theme.background': 'पृष्ठभूमि',
+  'theme.glow': 'चमक',
+  'theme.dim': 'हल्का रंग',
+  'theme.font': 'फ़ॉन्ट',
+  'theme.gridDensity': 'ग्रिड घनत्व',
+  'theme.scanlineIntensity': 'स्कैनलाइन तीव्रता',
+  'theme.lowContrast': 'कम कंट्रास्ट',
+  'theme.update': 'थीम अपडेट करें',
+  'theme.newName': 'नई थीम का नाम...',
+
+  'notes.empty': 'कोई नोट नहीं',
+  'notes.delete': 'नोट हटाएँ',
+  'notes.add': 'नोट जोड़ें...',
+  'notes.clear': 'सब हटाएँ',
+  'sessions.empty': 'कोई सत्र नहीं',
+  'sessions.open': 'खोलें',
+  'sessions.turns': '{count} संदेश',
+  'sessions.export': '{format} एक्सपोर्ट',
+  'recordings.empty': 'कोई रिकॉर्डिंग नहीं',
+  'recordings.openTranscript': 'ट्रांसक्रिप्ट खोलें',
+  'recordings.log': 'लॉग',
+  'snapshot.title': 'स्नैपशॉट // चिह्नित करें और पूछें',
+  'snapshot.gallery': 'स्नैपशॉट',
+  'snapshot.empty': 'इस सत्र में कोई स्नैपशॉट नहीं',
+  'snapshot.tools': 'चिह्नित करने के टूल',
+  'snapshot.box': 'बॉक्स',
+  'snapshot.arrow': 'तीर',
+  'snapshot.crop': 'क्रॉप',
+  'snapshot.undo': 'पूर्ववत',
+  'snapshot.clear': 'साफ़ करें',
+  'snapshot.canvas': 'रुका हुआ फ़्रेम। चुने गए टूल से बनाने के लिए खींचें।',
+  'snapshot.question': 'इस फ़्रेम के बारे में प्रश्न',
+  'snapshot.questionPlaceholder': 'प्रश्न लिखें (या खाली छोड़कर बोलकर पूछें)',
+  'snapshot.voiceHint': '* कोई प्रश्न नहीं लिखा: पहले चित्र भेजा जाएगा, फिर रिनु से बोलकर पूछें',
+  'snapshot.send': 'भेजें',
+  'snapshot.sendAndSpeak': 'भेजें और बोलकर पूछें',
+  'snapshot.askedByVoice': '(बोलकर पूछा गया)',
+  'snapshot.open': 'पूरे आकार में खोलें',
+  'transcript.title': 'ट्रांसक्रिप्ट',
+  'transcript.rinu': 'रिनु',
+  'transcript.entries': '{count} प्रविष्टियाँ',
+  'transcript.awaiting': 'ऑडियो की प्रतीक्षा...',
+  'tools.title': 'एआई गतिविधियाँ',
+
+  'error.attemptsLeft': '{count} प्रयास शेष',
+  'error.AUTH_FAILED': 'प्रमाणीकरण विफल',
+  'error.AUTH_SERVER_UNREACHABLE': 'ऑथ सर्वर तक नहीं पहुँच पा रहे',
+  'error.AUTH_SERVER_ERROR': 'ऑथ सर्वर में त्रुटि',
+  'error.PAYLOAD_TOO_LARGE': 'अनुरोध बहुत बड़ा है',
+  'error.MALFORMED_REQUEST': 'अनुरोध का प्रारूप गलत है',
+  'error.INVALID_NUMBER_FORMAT': 'फ़ोन नंबर का प्रारूप गलत है',
+  'error.INVALID_ACCESS_CODE': 'एक्सेस कोड गलत है',
+  'error.OTP_RESEND_COOLDOWN': 'कोड दोबारा भेजने से पहले थोड़ा रुकें',
+  'error.OTP_NOT_REQUESTED': 'पहले एक कोड माँगें',
+  'error.OTP_EXPIRED': 'कोड की समय-सीमा समाप्त',
+  'error.OTP_ATTEMPTS_EXCEEDED': 'बहुत अधिक गलत प्रयास',
+  'error.SESSION_EXPIRED': 'सत्र समाप्त, फिर से लॉग इन करें',
+  'error.LIVE_TOKEN_BROKER_UNSET': 'टोकन सर्वर कॉन्फ़िगर नहीं है',
+  'error.LIVE_TOKEN_BROKER_UNREACHABLE': 'टोकन सर्वर तक नहीं पहुँच पा रहे',
+  'error.LIVE_TOKEN_REFUSED': 'टोकन नहीं मिला',
+  'error.LIVE_TOKEN_RATE_LIMITED': 'बहुत अधिक अनुरोध, थोड़ी देर बाद प्रयास करें',
+  'error.LIVE_TOKEN_UPSTREAM_ERROR': 'लाइव सेवा टोकन नहीं दे सकी',
+  'error.LIVE_KEY_NOT_CONFIGURED': 'सर्वर पर API कुंजी सेट नहीं है',
+  'error.CONNECTION_FAILED_RETRY': 'कनेक्शन विफल, फिर से प्रयास करें',
+  'error.UPLINK_FAILURE_DETECTED': 'अपलिंक में समस्या',
+  'error.CAMERA_ACCESS_DENIED': 'कैमरा उपयोग की अनुमति नहीं',
+  'error.AUDIO_CAPTURE_FAILURE': 'ऑडियो कैप्चर विफल',
+  'error.CAMERA_DEVICE_MISSING': 'चुना गया कैमरा नहीं मिला',
+  'error.MIC_DEVICE_MISSING': 'चुना गया माइक नहीं मिला',
+  'error.SPEAKER_DEVICE_MISSING': 'चुना गया स्पीकर नहीं मिला',
+  'error.CAMERA_DEVICE_DISCONNECTED': 'कैमरा डिस्कनेक्ट हो गया',
+  'error.MIC_DEVICE_DISCONNECTED': 'माइक डिस्कनेक्ट हो गया',
+  'error.SPEAKER_DEVICE_DISCONNECTED': 'स्पीकर डिस्कनेक्ट हो गया',
+  'error.SPEAKER_SWITCH_FAILED': 'स्पीकर नहीं बदला जा सका',
+  'error.RECORDING_UNSUPPORTED': 'इस ब्राउज़र में रिकॉर्डिंग समर्थित नहीं',
+  'error.RECORDING_FAILED': 'रिकॉर्डिंग विफल',
+  'error.PIP_MODULE_ERROR': 'पिक्चर-इन-पिक्चर शुरू नहीं हो सका',
+  'error.WEBGL_UNAVAILABLE': 'WebGL उपलब्ध नहीं',
+  'error.SHADER_FAILED': 'शेडर फ़िल्टर विफल',
+  'error.THEME_FILE_MALFORMED': 'थीम फ़ाइल पढ़ी नहीं जा सकी',
+  'error.THEME_FILE_INVALID': 'थीम फ़ाइल मान्य नहीं है',
+  'error.THEME_FILE_UNSUPPORTED': 'थीम फ़ाइल का संस्करण समर्थित नहीं',
+  'error.THEME_IMPORT_FAILED': 'थीम इम्पोर्ट विफल',
+  'error.SETTINGS_FILE_MALFORMED': 'सेटिंग्स फ़ाइल पढ़ी नहीं जा सकी',
+  'error.SETTINGS_FILE_INVALID': 'सेटिंग्स फ़ाइल मान्य नहीं है',
+  'error.SETTINGS_FILE_UNSUPPORTED': 'सेटिंग्स फ़ाइल का संस्करण समर्थित नहीं',
+  'error.SETTINGS_IMPORT_FAILED': 'सेटिंग्स इम्पोर्ट विफल',
+  'error.SNAPSHOT_NO_FRAME': 'स्नैपशॉट के लिए कोई फ़्रेम नहीं',
+  'error.SNAPSHOT_FAILED': 'स्नैपशॉट नहीं भेजा जा सका',
+};
@@ -0,0 +1,234 @@
+import './env';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { AccessTokenClaims, bearerToken, issueAccessToken, revokeAccessToken, verifyAccessToken } from './authTokens';
+import { createLiveToken } from './liveTokenBroker';
+
+// Local OTP auth backend, spoken to by services/localAuthProvider.ts. There is no SMS
+// gateway: issued codes are printed to this server's console. State is in memory.
+// It also hosts the Live API token broker for signed-in operators (server/liveTokenBroker.ts).
+//
+//   AUTH_PORT=8788            port to listen on
+//   AUTH_SECRET=...           HMAC key for access tokens (random per process if unset)
+//   AUTH_ALLOWED_ORIGIN=*     CORS origin allowed to call the API
+//   GEMINI_API_KEY=...        key the token broker mints Live API tokens with
+//
+//   POST /otp/request   { phone }                 -> { expiresAt, resendAvailableAt, codeLength }
+//   POST /otp/verify    { phone, code }           -> AuthSessionPayload
+//   POST /token/refresh { refreshToken }          -> AuthSessionPayload (refresh token rotates)
+//   POST /logout        { refreshToken } + Bearer -> 204
+//   GET  /me            Bearer                    -> { phone }
+//   POST /live/token    Bearer                    -> { token, expiresAt, newSessionExpiresAt }
+//
+// Errors come back as { error: 'UPPER_SNAKE_CODE', ... } with a matching HTTP status.
+
+const PORT = Number(process.env.AUTH_PORT ?? 8788);
+const ALLOWED_ORIGIN = process.env.AUTH_ALLOWED_ORIGIN ?? '*';
+
+const OTP_LENGTH = 6;
+const OTP_TTL_MS = 5 * 60 * 1000;
+const OTP_MAX_ATTEMPTS = 5;
+const OTP_RESEND_COOLDOWN_MS = 30 * 1000;
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_BODY_BYTES = 16 * 1024;
+
+const PHONE_PATTERN = /^\+\d{8,15}$/;
+
+interface OtpChallenge {
+  code: string;
+  expiresAt: number;
+  resendAvailableAt: number;
+  attemptsLeft: number;
+}
+
+interface RefreshGrant {
+  phone: string;
+  expiresAt: number;
+}
+
+interface AuthSessionPayload {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  user: { phone: string };
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, readonly code: string, readonly details: Record<string, unknown> = {}) {
+    super(code);
+  }
+}
+
+// Parsed JSON body; every field is untrusted until checked
+type RequestBody = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RequestBody => !!value && typeof value === 'object' && !Array.isArray(value);
+const stringField = (body: RequestBody, key: string) => {
+  const value = body[key];
+  return typeof value === 'string' ? value : '';
+};
+
+const challenges = new Map<string, OtpChallenge>();
+const refreshGrants = new Map<string, RefreshGrant>();
+
+const codesMatch = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+function openSession(phone: string): AuthSessionPayload {
+  const { token, claims } = issueAccessToken(phone, ACCESS_TOKEN_TTL_MS);
+  const refreshToken = randomBytes(32).toString('base64url');
+  refreshGrants.set(refreshToken, { phone, expiresAt: Date.now() + REFRESH_TOKEN_TTL_MS });
+  return { accessToken: token, refreshToken, expiresAt: claims.exp, user: { phone } };
+}
+
+function requireAccess(req: IncomingMessage): AccessTokenClaims {
+  const token = bearerToken(req.headers.authorization);
+  const claims = token ? verifyAccessToken(token) : null;
+  if (!claims) throw new HttpError(401, 'SESSION_EXPIRED');
+  return claims;
+}
+
+function requestOtp(body: RequestBody) {
+  const phone = stringField(body, 'phone');
+  if (!PHONE_PATTERN.test(phone)) throw new HttpError(400, 'INVALID_NUMBER_FORMAT');
+
+  const now = Date.now();
+  const existing = challenges.get(phone);
+  if (existing && existing.resendAvailableAt > now) {
+    throw new HttpError(429, 'OTP_RESEND_COOLDOWN', { retryAfterMs: existing.resendAvailableAt - now });
+  }
+
+  const challenge: OtpChallenge = {
+    code: String(randomInt(0, 10 ** OTP_LENGTH)).padStart(OTP_LENGTH, '0'),
+    expiresAt: now + OTP_TTL_MS,
+    resendAvailableAt: now + OTP_RESEND_COOLDOWN_MS,
+    attemptsLeft: OTP_MAX_ATTEMPTS,
+  };
+  challenges.set(phone, challenge);
+  console.log(`[auth] OTP for ${phone}: ${challenge.code} (valid ${OTP_TTL_MS / 60000} min)`);
+  return { expiresAt: challenge.expiresAt, resendAvailableAt: challenge.resendAvailableAt, codeLength: OTP_LENGTH };
+}
+
+function verifyOtp(body: RequestBody) {
+  const phone = stringField(body, 'phone');
+  const code = stringField(body, 'code');
+  const challenge = challenges.get(phone);
+  if (!challenge) throw new HttpError(404, 'OTP_NOT_REQUESTED');
+  if (challenge.expiresAt <= Date.now()) {
+    challenges.delete(phone);
+    throw new HttpError(410, 'OTP_EXPIRED');
+  }
+  if (!codesMatch(code, challenge.code)) {
+    challenge.attemptsLeft--;
+    if (challenge.attemptsLeft <= 0) {
+      // Burn the code; the cooldown still applies to requesting a new one
+      challenge.expiresAt = 0;
+      throw new HttpError(429, 'OTP_ATTEMPTS_EXCEEDED');
+    }
+    throw new HttpError(401, 'INVALID_ACCESS_CODE', { attemptsLeft: challenge.attemptsLeft });
+  }
+
+  challenges.delete(phone);
+  console.log(`[auth] ${phone} signed in`);
+  return openSession(phone);
+}
+
+function refreshSession(body: RequestBody) {
+  const refreshToken = stringField(body, 'refreshToken');
+  const grant = refreshGrants.get(refreshToken);
+  // Single use: the old refresh token dies whether or not it is still valid
+  refreshGrants.delete(refreshToken);
+  if (!grant || grant.expiresAt <= Date.now()) throw new HttpError(401, 'SESSION_EXPIRED');
+  return openSession(grant.phone);
+}
+
+function logout(req: IncomingMessage, body: RequestBody) {
+  const token = bearerToken(req.headers.authorization);
+  const claims = token ? verifyAccessToken(token) : null;
+  if (claims) revokeAccessToken(claims);
+
+  const refreshToken = stringField(body, 'refreshToken');
+  const grant = refreshGrants.get(refreshToken);
+  if (grant && (!claims || grant.phone === claims.sub)) refreshGrants.delete(refreshToken);
+  if (claims) console.log(`[auth] ${claims.sub} signed out`);
+  return null;
+}
+
+const routes: Record<string, (req: IncomingMessage, body: RequestBody) => unknown> = {
+  'POST /otp/request': (_req, body) => requestOtp(body),
+  'POST /otp/verify': (_req, body) => verifyOtp(body),
+  'POST /token/refresh': (_req, body) => refreshSession(body),
+  'POST /logout': logout,
+  'GET /me': req => ({ phone: requireAccess(req).sub }),
+  'POST /live/token': async req => {
+    const result = await createLiveToken(requireAccess(req).sub);
+    if (result.ok === false) throw new HttpError(result.status, result.code);
+    return result.grant;
+  },
+};
+
+// Bodies must be JSON objects; anything else is a malformed request
+function readJson(req: IncomingMessage): Promise<RequestBody> {
+  return new Promise((resolve, reject) => {
+    // Raw bytes until the end: the limit is in bytes, and a character split across chunks
+    // only decodes correctly once they are joined
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) {
+        chunks.push(chunk);
+        return;
+      }
+      // Stop buffering; the rest of the body is drained unread so the 413 still goes out
+      req.off('data', onData);
+      req.off('end', onEnd);
+      req.resume();
+      chunks.length = 0;
+      reject(new HttpError(413, 'PAYLOAD_TOO_LARGE'));
+    };
+    const onEnd = () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      let parsed: unknown;
+      try {
+        parsed = raw ? JSON.parse(raw) : {};
+      } catch {
+        reject(new HttpError(400, 'MALFORMED_REQUEST'));
+        return;
+      }
+      if (isObject(parsed)) resolve(parsed);
+      else reject(new HttpError(400, 'MALFORMED_REQUEST'));
+    };
+    req.on('data', onData);
+    req.on('end', onEnd);
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, body === undefined ? {} : { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const route = routes[`${req.method} ${new URL(req.url ?? '/', 'http://localhost').pathname}`];
+  if (!route) return send(res, 404, { error: 'NOT_FOUND' });
+
+  try {
+    const body = req.method === 'POST' ? await readJson(req) : {};
+    const result = await route(req, body);
+    send(res, result === null ? 204 : 200, result === null ? undefined : result);
+  } catch (err) {
+    if (err instanceof HttpError) return send(res, err.status, { error: err.code, ...err.details });
+    console.error('[auth] request failed:', err);
+    send(res, 500, { error: 'AUTH_SERVER_ERROR' });
+  }
+});
+
+server.listen(PORT, () => console.log(`[auth] server listening on http://localhost:${PORT}`));
@@ -0,0 +1,57 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Compact HMAC-SHA256 signed access tokens: base64url(payload).base64url(signature).
+// Shared by the auth server (which issues them) and anything that needs to check them.
+
+export interface AccessTokenClaims {
+  sub: string; // operator phone number
+  jti: string;
+  iat: number;
+  exp: number;
+}
+
+// Without AUTH_SECRET every restart invalidates outstanding tokens, which is fine for local dev
+const SECRET = process.env.AUTH_SECRET || randomBytes(32).toString('hex');
+if (!process.env.AUTH_SECRET) {
+  console.warn('[auth] AUTH_SECRET not set, using a random per-process signing key');
+}
+
+// jti -> exp of access tokens killed by logout, kept until they would have expired anyway
+const revoked = new Map<string, number>();
+
+const sign = (payload: string) => createHmac('sha256', SECRET).update(payload).digest('base64url');
+
+export function issueAccessToken(phone: string, ttlMs: number): { token: string; claims: AccessTokenClaims } {
+  const now = Date.now();
+  const claims: AccessTokenClaims = { sub: phone, jti: randomBytes(12).toString('base64url'), iat: now, exp: now + ttlMs };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return { token: `${payload}.${sign(payload)}`, claims };
+}
+
+// Returns the claims for a well-signed, unexpired token, null otherwise
+export function verifyAccessToken(token: string): AccessTokenClaims | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as AccessTokenClaims;
+    return claims.exp > Date.now() && !revoked.has(claims.jti) ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+export function revokeAccessToken(claims: AccessTokenClaims) {
+  const now = Date.now();
+  revoked.forEach((exp, jti) => { if (exp <= now) revoked.delete(jti); });
+  revoked.set(claims.jti, claims.exp);
+}
+
+export function bearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
@@ -0,0 +1,5 @@
+import { existsSync } from 'fs';
+
+// Server-only secrets (GEMINI_API_KEY, AUTH_SECRET) can live in the same .env.local the app uses.
+// Import this first so they are set before other modules read process.env.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
@@ -0,0 +1,58 @@
+import { GoogleGenAI } from '@google/genai';
+import { GEMINI_LIVE_MODEL } from '../services/geminiTransport';
+
+// Mints short-lived, single-use Live API tokens so the Gemini key never leaves the server.
+// Clients open their session with the token within NEW_SESSION_WINDOW_MS; the session
+// itself may then run until SESSION_TTL_MS (resuming it does not spend another use).
+//
+//   GEMINI_API_KEY=...   key used to mint tokens (the broker refuses without it)
+
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+const SESSION_TTL_MS = 30 * 60 * 1000;
+const RATE_WINDOW_MS = 60 * 1000;
+const RATE_MAX_TOKENS = 10; // per operator per window; reconnect storms stay well under this
+
+export interface LiveTokenGrant {
+  token: string;
+  expiresAt: number;
+  newSessionExpiresAt: number;
+}
+
+export type LiveTokenResult =
+  | { ok: true; grant: LiveTokenGrant }
+  | { ok: false; status: number; code: string };
+
+const apiKey = process.env.GEMINI_API_KEY;
+const ai = apiKey ? new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } }) : null;
+if (!ai) console.warn('[broker] GEMINI_API_KEY not set, live token requests will be refused');
+
+const issued = new Map<string, number[]>();
+
+export async function createLiveToken(operator: string): Promise<LiveTokenResult> {
+  if (!ai) return { ok: false, status: 503, code: 'LIVE_KEY_NOT_CONFIGURED' };
+
+  const now = Date.now();
+  const recent = (issued.get(operator) ?? []).filter(at => now - at < RATE_WINDOW_MS);
+  if (recent.length >= RATE_MAX_TOKENS) return { ok: false, status: 429, code: 'LIVE_TOKEN_RATE_LIMITED' };
+  issued.set(operator, [...recent, now]);
+
+  const expiresAt = now + SESSION_TTL_MS;
+  const newSessionExpiresAt = now + NEW_SESSION_WINDOW_MS;
+  try {
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime: new Date(expiresAt).toISOString(),
+        newSessionExpireTime: new Date(newSessionExpiresAt).toISOString(),
+        // Pin the model; the session config (persona, tools, ...) stays up to the client
+        liveConnectConstraints: { model: GEMINI_LIVE_MODEL },
+      },
+    });
+    if (!token.name) return { ok: false, status: 502, code: 'LIVE_TOKEN_UPSTREAM_ERROR' };
+    console.log(`[broker] issued live token for ${operator}`);
+    return { ok: true, grant: { token: token.name, expiresAt, newSessionExpiresAt } };
+  } catch (err) {
+    console.error('[broker] token mint failed:', err);
+    return { ok: false, status: 502, code: 'LIVE_TOKEN_UPSTREAM_ERROR' };
+  }
+}
@@ -0,0 +1,294 @@
+import { readFileSync } from 'fs';
+import { WebSocketServer, WebSocket } from 'ws';
+
+// Local stand-in for the Gemini Live API, spoken to by services/mockTransport.ts.
+// It plays scripted replies as canned PCM with matching transcriptions, detects the
+// operator's turns from mic energy, and can simulate interruptions and disconnects.
+//
+//   MOCK_PORT=8787                 port to listen on
+//   MOCK_SCRIPT=./script.json      JSON array of reply lines (cycled)
+//   MOCK_DROP_AFTER_MS=30000       abruptly drop every connection after this long
+//   MOCK_GOAWAY_AFTER_MS=20000     send a goAway notice after this long
+//
+// Typed text turns starting with "/" are control commands: /drop, /goaway, /interrupt,
+// and /tool <name> <json args> to make the "model" call a client tool.
+
+const PORT = Number(process.env.MOCK_PORT ?? 8787);
+const DROP_AFTER_MS = Number(process.env.MOCK_DROP_AFTER_MS ?? 0);
+const GOAWAY_AFTER_MS = Number(process.env.MOCK_GOAWAY_AFTER_MS ?? 0);
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const AUDIO_FRAME_MS = 100;
+const SPEECH_RMS_THRESHOLD = 0.02;
+const END_OF_TURN_SILENCE_MS = 700;
+
+const DEFAULT_SCRIPT = [
+  'Uplink confirmed. Mock channel online. State your objective, operator.',
+  'Acknowledged. Running analysis on the visual feed now.',
+  'No anomalies detected. All systems nominal.',
+  'Affirmative. Logging that to the mission record.',
+  'Standing by for further instructions.',
+];
+
+const script: string[] = process.env.MOCK_SCRIPT
+  ? JSON.parse(readFileSync(process.env.MOCK_SCRIPT, 'utf8'))
+  : DEFAULT_SCRIPT;
+
+// Resumption handle -> next script line, so reconnecting clients pick up where they left off
+const resumableSessions = new Map<string, number>();
+let handleCounter = 0;
+let toolCallCounter = 0;
+
+// Robotic "speech": one enveloped tone per word, pitch keyed off the word
+function synthesizeSpeech(text: string): Int16Array {
+  const words = text.split(/\s+/).filter(Boolean);
+  const wordSamples = Math.round(OUTPUT_SAMPLE_RATE * 0.18);
+  const gapSamples = Math.round(OUTPUT_SAMPLE_RATE * 0.06);
+  const pcm = new Int16Array(words.length * (wordSamples + gapSamples));
+  words.forEach((word, w) => {
+    const frequency = 180 + (word.charCodeAt(0) % 12) * 25;
+    const offset = w * (wordSamples + gapSamples);
+    for (let i = 0; i < wordSamples; i++) {
+      const envelope = Math.sin((Math.PI * i) / wordSamples);
+      pcm[offset + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / OUTPUT_SAMPLE_RATE) * envelope * 0.3 * 0x7fff);
+    }
+  });
+  return pcm;
+}
+
+function pcmRms(base64: string): { rms: number; samples: number } {
+  const bytes = Buffer.from(base64, 'base64');
+  const pcm = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    const s = pcm[i] / 0x8000;
+    sum += s * s;
+  }
+  return { rms: pcm.length ? Math.sqrt(sum / pcm.length) : 0, samples: pcm.length };
+}
+
+const sampleRateOf = (mimeType: string) => Number(/rate=(\d+)/.exec(mimeType)?.[1] ?? 16000);
+
+// Client frames are untrusted JSON: fields are read through these instead of assumed
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const field = (value: unknown, ...path: string[]): unknown =>
+  path.reduce<unknown>((current, key) => (isObject(current) ? current[key] : undefined), value);
+const asString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+function extractText(params: unknown): string {
+  const turns = field(params, 'turns');
+  const list: unknown[] = Array.isArray(turns) ? turns : turns ? [turns] : [];
+  return list
+    .flatMap(turn => {
+      if (typeof turn === 'string') return [turn];
+      const parts = field(turn, 'parts');
+      return Array.isArray(parts) ? parts : [];
+    })
+    .map(part => (typeof part === 'string' ? part : asString(field(part, 'text'))))
+    .join('')
+    .trim();
+}
+
+function handleConnection(socket: WebSocket) {
+  let scriptIndex = 0;
+  let replyTimer: NodeJS.Timeout | null = null;
+  let inSpeech = false;
+  let speechMs = 0;
+  let silenceMs = 0;
+  let manualActivity = false; // client sends activityStart/End itself (push-to-talk)
+  const timers: NodeJS.Timeout[] = [];
+
+  const send = (message: object) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const issueResumptionHandle = () => {
+    const handle = `mock-${Date.now().toString(36)}-${handleCounter++}`;
+    resumableSessions.set(handle, scriptIndex);
+    send({ sessionResumptionUpdate: { newHandle: handle, resumable: true } });
+  };
+
+  const stopReply = () => {
+    if (replyTimer) {
+      clearInterval(replyTimer);
+      replyTimer = null;
+    }
+  };
+
+  const interrupt = () => {
+    if (!replyTimer) return;
+    stopReply();
+    send({ serverContent: { interrupted: true } });
+    send({ serverContent: { turnComplete: true } });
+  };
+
+  // Stream the next scripted line in real time so the client can interrupt it
+  const reply = () => {
+    stopReply();
+    const line = script[scriptIndex % script.length];
+    scriptIndex++;
+
+    const pcm = synthesizeSpeech(line);
+    const words = line.split(/\s+/);
+    const frameSamples = (OUTPUT_SAMPLE_RATE * AUDIO_FRAME_MS) / 1000;
+    let offset = 0;
+    let wordsSent = 0;
+
+    replyTimer = setInterval(() => {
+      const frame = pcm.subarray(offset, offset + frameSamples);
+      offset += frameSamples;
+      send({
+        serverContent: {
+          modelTurn: {
+            parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength).toString('base64') } }],
+          },
+        },
+      });
+
+      const wordsDue = Math.min(words.length, Math.ceil((offset / pcm.length) * words.length));
+      if (wordsDue > wordsSent) {
+        send({ serverContent: { outputTranscription: { text: (wordsSent ? ' ' : '') + words.slice(wordsSent, wordsDue).join(' ') } } });
+        wordsSent = wordsDue;
+      }
+
+      if (offset >= pcm.length) {
+        stopReply();
+        send({ serverContent: { generationComplete: true } });
+        send({ serverContent: { turnComplete: true } });
+        issueResumptionHandle();
+      }
+    }, AUDIO_FRAME_MS);
+  };
+
+  const endUserTurn = () => {
+    send({ serverContent: { inputTranscription: { text: `[voice input ${(speechMs / 1000).toFixed(1)}s]`, finished: true } } });
+    inSpeech = false;
+    speechMs = 0;
+    silenceMs = 0;
+    reply();
+  };
+
+  const handleAudio = (data: string, mimeType: string) => {
+    const { rms, samples } = pcmRms(data);
+    const durationMs = (samples / sampleRateOf(mimeType)) * 1000;
+
+    // Turn boundaries come from activity signals; just count the audio
+    if (manualActivity) {
+      if (inSpeech) speechMs += durationMs;
+      return;
+    }
+
+    if (rms >= SPEECH_RMS_THRESHOLD) {
+      // Barge-in while a reply is playing
+      if (!inSpeech) interrupt();
+      inSpeech = true;
+      speechMs += durationMs;
+      silenceMs = 0;
+      return;
+    }
+
+    if (!inSpeech) return;
+    silenceMs += durationMs;
+    if (silenceMs >= END_OF_TURN_SILENCE_MS) endUserTurn();
+  };
+
+  const handleText = (text: string) => {
+    const toolCommand = /^\/tool\s+(\w+)\s*(.*)$/.exec(text);
+    if (toolCommand) {
+      try {
+        const args = toolCommand[2] ? JSON.parse(toolCommand[2]) : {};
+        send({ toolCall: { functionCalls: [{ id: `mock-call-${toolCallCounter++}`, name: toolCommand[1], args }] } });
+      } catch {
+        console.warn(`[mock] bad tool args: ${toolCommand[2]}`);
+      }
+      return;
+    }
+
+    switch (text) {
+      case '/drop':
+        socket.terminate();
+        return;
+      case '/goaway':
+        send({ goAway: { timeLeft: '5s' } });
+        return;
+      case '/interrupt':
+        interrupt();
+        return;
+      default:
+        interrupt();
+        reply();
+    }
+  };
+
+  // Like the real API: a frame that isn't valid JSON of the expected shape ends the session
+  const protocolError = (reason: string) => {
+    console.warn(`[mock] ${reason}, closing`);
+    socket.close(1007, reason);
+  };
+
+  socket.on('message', raw => {
+    let frame: unknown;
+    try {
+      frame = JSON.parse(raw.toString());
+    } catch {
+      protocolError('malformed frame');
+      return;
+    }
+    if (!isObject(frame) || typeof frame.type !== 'string') {
+      protocolError('frame without a type');
+      return;
+    }
+
+    switch (frame.type) {
+      case 'setup': {
+        manualActivity = Boolean(field(frame, 'config', 'realtimeInputConfig', 'automaticActivityDetection', 'disabled'));
+        const handle = asString(field(frame, 'config', 'sessionResumption', 'handle'));
+        if (handle && resumableSessions.has(handle)) {
+          scriptIndex = resumableSessions.get(handle)!;
+          console.log(`[mock] resumed session ${handle}`);
+        }
+        send({ setupComplete: {} });
+        issueResumptionHandle();
+        if (DROP_AFTER_MS) timers.push(setTimeout(() => socket.terminate(), DROP_AFTER_MS));
+        if (GOAWAY_AFTER_MS) timers.push(setTimeout(() => send({ goAway: { timeLeft: '5s' } }), GOAWAY_AFTER_MS));
+        break;
+      }
+      case 'realtimeInput': {
+        const params = frame.params;
+        const media = field(params, 'media') ?? field(params, 'audio');
+        const mimeType = asString(field(media, 'mimeType'));
+        const data = asString(field(media, 'data'));
+        if (mimeType.startsWith('audio/pcm') && data) handleAudio(data, mimeType);
+        if (field(params, 'activityStart')) {
+          interrupt();
+          inSpeech = true;
+        }
+        // A closed mic stream ends the turn now instead of after the silence timeout
+        if ((field(params, 'activityEnd') || field(params, 'audioStreamEnd')) && inSpeech) endUserTurn();
+        break;
+      }
+      case 'clientContent': {
+        const text = extractText(frame.params);
+        if (text) handleText(text);
+        break;
+      }
+      case 'toolResponse':
+        console.log('[mock] tool response', JSON.stringify(frame.params));
+        break;
+      default:
+        console.warn(`[mock] unknown frame type "${frame.type}"`);
+    }
+  });
+
+  socket.on('close', () => {
+    stopReply();
+    timers.forEach(clearTimeout);
+  });
+}
+
+const server = new WebSocketServer({ port: PORT });
+server.on('connection', socket => {
+  console.log('[mock] client connected');
+  handleConnection(socket);
+});
+console.log(`[mock] live server listening on ws://localhost:${PORT}`);
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]):not([type="hidden"]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Tracks the OS-level reduced motion setting
+export function usePrefersReducedMotion(): boolean {
+  const [prefers, setPrefers] = useState(() => window.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false);
+  useEffect(() => {
+    const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (!query) return;
+    const handleChange = () => setPrefers(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+  return prefers;
+}
+
+const focusableIn = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(el => el.tabIndex >= 0 && (el.offsetParent !== null || el === document.activeElement));
+
+// Keeps Tab inside a dialog while it is active: focuses its first control on open, wraps at
+// the ends, closes on Escape and hands focus back to whatever opened it. The returned
+// handler goes on the dialog container's onKeyDown.
+export function useFocusTrap(containerRef: React.RefObject<HTMLElement | null>, active: boolean, onEscape: () => void) {
+  const onEscapeRef = useRef(onEscape);
+  onEscapeRef.current = onEscape;
+
+  useEffect(() => {
+    if (!active) return;
+    const opener = document.activeElement as HTMLElement | null;
+    const container = containerRef.current;
+    if (container) (focusableIn(container)[0] ?? container).focus();
+    return () => opener?.focus?.();
+  }, [active, containerRef]);
+
+  return (e: React.KeyboardEvent<HTMLElement>) => {
+    const container = containerRef.current;
+    if (!container) return;
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onEscapeRef.current();
+      return;
+    }
+    if (e.key !== 'Tab') return;
+    const focusable = focusableIn(container);
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && (document.activeElement === first || document.activeElement === container)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+}
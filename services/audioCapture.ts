@@ -0,0 +1,152 @@
+// Mic capture pipeline: an AudioWorklet resamples whatever rate the hardware runs at
+// down to 16 kHz mono Int16 PCM off the main thread and posts fixed-size chunks back.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+
+// Chunk sizes in samples at 16 kHz (20 ms .. 256 ms)
+export const CAPTURE_CHUNK_SIZES = [320, 640, 1600, 4096];
+export const DEFAULT_CAPTURE_CHUNK_SIZE = 640;
+
+export interface PcmBlob {
+  data: string;
+  mimeType: string;
+}
+
+export interface AudioCaptureOptions {
+  chunkSize?: number;
+  onChunk: (blob: PcmBlob, samples: Int16Array) => void;
+}
+
+export interface AudioCaptureHandle {
+  context: AudioContext;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode; // mic levels for meters/visualizers
+  stop: () => void;
+}
+
+const PROCESSOR_NAME = 'rinu-pcm-capture';
+
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSize } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.chunkSize = chunkSize;
+    this.chunk = new Int16Array(chunkSize);
+    this.filled = 0;
+    this.pending = new Float32Array(0);
+    this.position = 0;
+  }
+
+  push(value) {
+    const s = Math.max(-1, Math.min(1, value));
+    this.chunk[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.filled === this.chunkSize) {
+      this.port.postMessage(this.chunk.buffer, [this.chunk.buffer]);
+      this.chunk = new Int16Array(this.chunkSize);
+      this.filled = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    const samples = new Float32Array(this.pending.length + input.length);
+    samples.set(this.pending);
+    samples.set(input, this.pending.length);
+
+    // Downsampling averages each output window (a cheap anti-alias filter),
+    // upsampling interpolates linearly between neighbours.
+    const span = Math.max(this.ratio, 1);
+    let pos = this.position;
+    while (pos + span < samples.length) {
+      const start = Math.floor(pos);
+      if (this.ratio > 1) {
+        const end = Math.floor(pos + this.ratio);
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += samples[i];
+        this.push(sum / Math.max(1, end - start));
+      } else {
+        const frac = pos - start;
+        this.push(samples[start] + (samples[start + 1] - samples[start]) * frac);
+      }
+      pos += this.ratio;
+    }
+
+    const consumed = Math.floor(pos);
+    this.pending = samples.slice(consumed);
+    this.position = pos - consumed;
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+function encode(bytes: Uint8Array) {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export async function startAudioCapture(stream: MediaStream, options: AudioCaptureOptions): Promise<AudioCaptureHandle> {
+  // No sampleRate hint: run at the hardware rate and let the worklet resample
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  if (!context.audioWorklet) {
+    await context.close();
+    throw new Error('AudioWorklet is not supported in this browser');
+  }
+
+  const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } catch (err) {
+    await context.close();
+    throw err;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      targetSampleRate: CAPTURE_SAMPLE_RATE,
+      chunkSize: options.chunkSize ?? DEFAULT_CAPTURE_CHUNK_SIZE,
+    },
+  });
+
+  node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => {
+    options.onChunk(
+      { data: encode(new Uint8Array(e.data)), mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}` },
+      new Int16Array(e.data),
+    );
+  };
+
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  analyser.smoothingTimeConstant = 0.6;
+
+  source.connect(node);
+  source.connect(analyser);
+
+  return {
+    context,
+    source,
+    analyser,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      context.close().catch(console.error);
+    },
+  };
+}
@@ -0,0 +1,38 @@
+// The operator sign-in flow the UI relies on. Providers map it onto a concrete
+// backend (the local auth server, a hosted SMS/OTP service, ...).
+
+export interface AuthUser {
+  phone: string;
+}
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // access token expiry, epoch ms
+  user: AuthUser;
+}
+
+export interface OtpChallenge {
+  expiresAt: number;
+  resendAvailableAt: number;
+  codeLength: number;
+}
+
+// Failures carry an UPPER_SNAKE code the UI can show as-is
+export class AuthError extends Error {
+  constructor(
+    readonly code: string,
+    readonly details: { attemptsLeft?: number; retryAfterMs?: number } = {},
+  ) {
+    super(code);
+    this.name = 'AuthError';
+  }
+}
+
+export interface AuthProvider {
+  readonly name: string;
+  requestOtp: (phone: string) => Promise<OtpChallenge>;
+  verifyOtp: (phone: string, code: string) => Promise<AuthSession>;
+  refresh: (refreshToken: string) => Promise<AuthSession>;
+  logout: (session: AuthSession) => Promise<void>;
+}
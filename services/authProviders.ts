@@ -0,0 +1,13 @@
+import { AuthProvider } from './authProvider';
+import { createLocalAuthProvider } from './localAuthProvider';
+
+// Pick the auth backend from env config (AUTH_PROVIDER=local)
+export function createAuthProvider(): AuthProvider {
+  switch (process.env.AUTH_PROVIDER) {
+    case 'local':
+      return createLocalAuthProvider({ url: process.env.AUTH_URL });
+    default:
+      console.warn(`Unknown AUTH_PROVIDER "${process.env.AUTH_PROVIDER}", falling back to local`);
+      return createLocalAuthProvider({ url: process.env.AUTH_URL });
+  }
+}
@@ -0,0 +1,44 @@
+import { AuthSession } from './authProvider';
+
+// Each operator profile keeps its own token pair in localStorage, so switching profiles
+// doesn't need a new access code. Whether a pair is still good is decided by the server
+// on refresh, not by its presence here.
+
+const storageKey = (phone: string) => `rinu_auth_${phone}`;
+const LEGACY_STORAGE_KEY = 'rinu_auth'; // single session, before profiles
+
+// Refresh this long before the access token runs out
+export const REFRESH_LEAD_MS = 60 * 1000;
+
+const parseSession = (raw: string | null): AuthSession | null => {
+  if (!raw) return null;
+  try {
+    const session = JSON.parse(raw) as AuthSession;
+    return session.accessToken && session.refreshToken && session.user?.phone ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+export function loadAuthSession(phone: string): AuthSession | null {
+  const session = parseSession(localStorage.getItem(storageKey(phone)));
+  if (session) return session;
+  const legacy = parseSession(localStorage.getItem(LEGACY_STORAGE_KEY));
+  if (legacy?.user.phone !== phone) return null;
+  saveAuthSession(legacy);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return legacy;
+}
+
+// Phone of the session saved before profiles existed, if any
+export function legacySessionPhone(): string | null {
+  return parseSession(localStorage.getItem(LEGACY_STORAGE_KEY))?.user.phone ?? null;
+}
+
+export function saveAuthSession(session: AuthSession) {
+  localStorage.setItem(storageKey(session.user.phone), JSON.stringify(session));
+}
+
+export function clearAuthSession(phone: string) {
+  localStorage.removeItem(storageKey(phone));
+}
@@ -0,0 +1,112 @@
+import { Type } from '@google/genai';
+import { THEMES } from '../constants';
+import { VideoFilter } from '../types';
+import { BUILTIN_FILTERS } from './filterPresets';
+import { defineTool, ToolDefinition } from './tools';
+
+// App hooks the built-in tools act through
+export interface BuiltinToolContext {
+  startTimer: (seconds: number, label: string) => void;
+  setFilter: (filter: VideoFilter) => void;
+  setTheme: (id: string) => void;
+  setVideoEnabled: (enabled: boolean) => void;
+  addMissionNote: (text: string) => void;
+  getMissionNotes: () => string[];
+}
+
+const MAX_TIMER_SECONDS = 24 * 60 * 60;
+
+export function createBuiltinTools(ctx: BuiltinToolContext): ToolDefinition[] {
+  return [
+    defineTool<{ seconds: number; label?: string }>({
+      name: 'set_timer',
+      description: 'Start a countdown timer shown on the operator HUD. The operator is alerted when it elapses.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          seconds: { type: Type.INTEGER, description: 'Duration in seconds.' },
+          label: { type: Type.STRING, description: 'Short label for the timer.' },
+        },
+        required: ['seconds'],
+      },
+      handler: ({ seconds, label }) => {
+        if (!Number.isFinite(seconds) || seconds <= 0 || seconds > MAX_TIMER_SECONDS) {
+          throw new Error(`seconds must be between 1 and ${MAX_TIMER_SECONDS}`);
+        }
+        ctx.startTimer(Math.round(seconds), label || 'TIMER');
+        return { started: true, seconds: Math.round(seconds) };
+      },
+    }),
+    defineTool<{ name: string }>({
+      name: 'set_video_filter',
+      description: 'Apply a visual filter to the operator camera feed.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, enum: BUILTIN_FILTERS.map(f => f.name), description: 'Filter name.' },
+        },
+        required: ['name'],
+      },
+      handler: ({ name }) => {
+        const filter = BUILTIN_FILTERS.find(f => f.name.toLowerCase() === name?.toLowerCase());
+        if (!filter) throw new Error(`Unknown filter "${name}"`);
+        ctx.setFilter(filter);
+        return { filter: filter.name };
+      },
+    }),
+    defineTool<{ name: string }>({
+      name: 'set_theme',
+      description: 'Switch the interface color theme.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, enum: THEMES.map(t => t.name), description: 'Theme name.' },
+        },
+        required: ['name'],
+      },
+      handler: ({ name }) => {
+        const theme = THEMES.find(t => t.name.toLowerCase() === name?.toLowerCase());
+        if (!theme) throw new Error(`Unknown theme "${name}"`);
+        ctx.setTheme(theme.id);
+        return { theme: theme.name };
+      },
+    }),
+    defineTool<{ enabled: boolean }>({
+      name: 'set_video_enabled',
+      description: 'Turn the operator video feed on or off.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          enabled: { type: Type.BOOLEAN, description: 'True to enable video, false to disable it.' },
+        },
+        required: ['enabled'],
+      },
+      handler: ({ enabled }) => {
+        ctx.setVideoEnabled(Boolean(enabled));
+        return { videoEnabled: Boolean(enabled) };
+      },
+    }),
+    defineTool<{ text: string }>({
+      name: 'add_mission_note',
+      description: 'Append a note to the operator mission notes list.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: 'Note text.' },
+        },
+        required: ['text'],
+      },
+      handler: ({ text }) => {
+        if (!text?.trim()) throw new Error('Note text is empty');
+        ctx.addMissionNote(text.trim());
+        return { saved: true };
+      },
+    }),
+    defineTool<Record<string, never>>({
+      name: 'list_mission_notes',
+      description: 'Read back the current mission notes.',
+      parameters: { type: Type.OBJECT, properties: {} },
+      handler: () => ({ notes: ctx.getMissionNotes() }),
+    }),
+  ];
+}
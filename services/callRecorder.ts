@@ -0,0 +1,110 @@
+import { FrameSource, frameSize } from './frameSampler';
+
+// Records a call as WebM: the on-screen video source (with the live filter baked in)
+// redrawn onto a canvas, plus the operator's mic and Rinu's playback mixed in the
+// output AudioContext.
+
+const RECORDING_FPS = 30;
+const CHUNK_INTERVAL_MS = 1000;
+const MIME_CANDIDATES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export interface CallRecorderOptions {
+  // Read every frame so filter / source / video toggles mid-call land in the recording
+  getSource: () => { source: FrameSource; filter: string } | null;
+  isVideoEnabled: () => boolean;
+  micStream: MediaStream | null;
+  outputContext: AudioContext;
+  outputNode: AudioNode; // Rinu's playback, tapped before the speakers
+}
+
+export interface CallRecordingResult {
+  blob: Blob;
+  mimeType: string;
+  startedAt: number;
+  durationMs: number;
+}
+
+export interface CallRecorderHandle {
+  startedAt: number;
+  stop: () => Promise<CallRecordingResult>;
+}
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && MIME_CANDIDATES.some(type => MediaRecorder.isTypeSupported(type));
+
+export function startCallRecording(options: CallRecorderOptions): CallRecorderHandle {
+  const { outputContext, outputNode } = options;
+  const mimeType = MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+
+  const canvas = document.createElement('canvas');
+  canvas.width = 1280;
+  canvas.height = 720;
+  const ctx = canvas.getContext('2d');
+
+  // Timer rather than rAF so the recording keeps ticking when the tab is hidden (e.g. in PiP)
+  const drawInterval = window.setInterval(() => {
+    if (!ctx) return;
+    const frame = options.isVideoEnabled() ? options.getSource() : null;
+    const size = frame ? frameSize(frame.source) : null;
+    if (size?.width && (canvas.width !== size.width || canvas.height !== size.height)) {
+      canvas.width = size.width;
+      canvas.height = size.height;
+    }
+    ctx.filter = 'none';
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (frame && size?.width) {
+      ctx.filter = frame.filter;
+      ctx.drawImage(frame.source, 0, 0, canvas.width, canvas.height);
+    }
+  }, 1000 / RECORDING_FPS);
+
+  const mix = outputContext.createMediaStreamDestination();
+  outputNode.connect(mix);
+  const mic = options.micStream?.getAudioTracks().length ? outputContext.createMediaStreamSource(options.micStream) : null;
+  mic?.connect(mix);
+
+  const stream = new MediaStream([...canvas.captureStream(RECORDING_FPS).getVideoTracks(), ...mix.stream.getAudioTracks()]);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => {
+    if (e.data.size) chunks.push(e.data);
+  };
+
+  const startedAt = Date.now();
+  recorder.start(CHUNK_INTERVAL_MS);
+
+  const cleanup = () => {
+    clearInterval(drawInterval);
+    stream.getTracks().forEach(track => track.stop());
+    mic?.disconnect();
+    try {
+      outputNode.disconnect(mix);
+    } catch {
+      // Output graph already torn down with its context
+    }
+  };
+
+  return {
+    startedAt,
+    stop: () =>
+      new Promise(resolve => {
+        const finish = () => {
+          cleanup();
+          resolve({ blob: new Blob(chunks, { type: mimeType }), mimeType, startedAt, durationMs: Date.now() - startedAt });
+        };
+        if (recorder.state === 'inactive') return finish();
+        recorder.onstop = finish;
+        recorder.stop();
+      }),
+  };
+}
+
+export function downloadRecording(recording: { blob: Blob; startedAt: number }) {
+  const url = URL.createObjectURL(recording.blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `rinu-call-${new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-')}.webm`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
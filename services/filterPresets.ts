@@ -0,0 +1,64 @@
+import { FilterAdjustments, FilterPreset, VideoFilter } from '../types';
+import { FILTERS } from '../constants';
+import { SHADER_EFFECTS } from './shaderFilters';
+import { MessageKey } from '../locales/en';
+
+export const NO_FILTER: VideoFilter = { id: 'none', name: 'NORMAL', css: 'none', shader: null };
+
+// Unsaved edits from the filter editor
+export const CUSTOM_FILTER_ID = 'custom';
+
+// The CSS looks plus each shader effect on its own
+export const BUILTIN_FILTERS: VideoFilter[] = [
+  ...FILTERS.map(f => (f.value === NO_FILTER.css ? NO_FILTER : { id: `css-${f.name.toLowerCase()}`, name: f.name, css: f.value, shader: null })),
+  ...SHADER_EFFECTS.map(effect => ({ id: `shader-${effect.id}`, name: effect.name, css: 'none', shader: effect.id })),
+];
+
+export const DEFAULT_ADJUSTMENTS: FilterAdjustments = {
+  brightness: 1,
+  contrast: 1,
+  saturate: 1,
+  hueRotate: 0,
+  grayscale: 0,
+  sepia: 0,
+  invert: 0,
+  blur: 0,
+};
+
+// Slider order and ranges for the filter editor; order is also the CSS chain order
+export const ADJUSTMENT_CONTROLS: { key: keyof FilterAdjustments; labelKey: MessageKey; min: number; max: number; step: number }[] = [
+  { key: 'brightness', labelKey: 'filters.brightness', min: 0, max: 2, step: 0.05 },
+  { key: 'contrast', labelKey: 'filters.contrast', min: 0, max: 3, step: 0.05 },
+  { key: 'saturate', labelKey: 'filters.saturate', min: 0, max: 4, step: 0.05 },
+  { key: 'hueRotate', labelKey: 'filters.hueRotate', min: 0, max: 360, step: 1 },
+  { key: 'grayscale', labelKey: 'filters.grayscale', min: 0, max: 1, step: 0.05 },
+  { key: 'sepia', labelKey: 'filters.sepia', min: 0, max: 1, step: 0.05 },
+  { key: 'invert', labelKey: 'filters.invert', min: 0, max: 1, step: 0.05 },
+  { key: 'blur', labelKey: 'filters.blur', min: 0, max: 10, step: 0.5 },
+];
+
+const CSS_FUNCTIONS: Record<keyof FilterAdjustments, (value: number) => string> = {
+  brightness: v => `brightness(${v})`,
+  contrast: v => `contrast(${v})`,
+  saturate: v => `saturate(${v})`,
+  hueRotate: v => `hue-rotate(${v}deg)`,
+  grayscale: v => `grayscale(${v})`,
+  sepia: v => `sepia(${v})`,
+  invert: v => `invert(${v})`,
+  blur: v => `blur(${v}px)`,
+};
+
+// Only non-default values make it into the chain, so an untouched preset is 'none'
+export function adjustmentsToCss(adjustments: FilterAdjustments): string {
+  const parts = ADJUSTMENT_CONTROLS
+    .filter(({ key }) => adjustments[key] !== DEFAULT_ADJUSTMENTS[key])
+    .map(({ key }) => CSS_FUNCTIONS[key](adjustments[key]));
+  return parts.length ? parts.join(' ') : 'none';
+}
+
+export const presetToFilter = (preset: FilterPreset): VideoFilter => ({
+  id: preset.id,
+  name: preset.name,
+  css: adjustmentsToCss(preset.adjustments),
+  shader: preset.shader,
+});
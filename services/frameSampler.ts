@@ -0,0 +1,168 @@
+import { FrameUploadSettings } from '../types';
+import { MessageKey } from '../locales/en';
+
+// Frames sent to the model are sampled independently of the camera capture quality:
+// scaled down to an upload resolution, skipped when nothing moved, and stepped down
+// a quality ladder when the session goes over its bandwidth budget.
+
+export const DEFAULT_FRAME_SETTINGS: FrameUploadSettings = {
+  maxDimension: 768,
+  frameRate: 2,
+  changeThreshold: 0.02,
+  bandwidthKbps: 0,
+};
+
+export const UPLOAD_DIMENSIONS = [384, 512, 768, 1024, 1280];
+export const FRAME_RATES = [0.5, 1, 2, 4];
+export const CHANGE_THRESHOLDS: { labelKey: MessageKey; value: number }[] = [
+  { labelKey: 'frames.gate.off', value: 0 },
+  { labelKey: 'frames.gate.low', value: 0.01 },
+  { labelKey: 'frames.gate.medium', value: 0.02 },
+  { labelKey: 'frames.gate.high', value: 0.05 },
+];
+export const BANDWIDTH_CAPS = [0, 100, 250, 500, 1000];
+
+// Scale factor on top of maxDimension, and JPEG quality, per adaptation level
+const QUALITY_LADDER = [
+  { scale: 1, jpegQuality: 0.7 },
+  { scale: 0.75, jpegQuality: 0.6 },
+  { scale: 0.5, jpegQuality: 0.5 },
+  { scale: 0.35, jpegQuality: 0.4 },
+];
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 18;
+const BANDWIDTH_WINDOW_MS = 10000;
+const LEVEL_UP_COOLDOWN_MS = 5000;
+const KEYFRAME_INTERVAL_MS = 10000; // resend even a static scene this often
+
+// The camera/screen video itself, or the shader canvas when a GPU filter is active
+export type FrameSource = HTMLVideoElement | HTMLCanvasElement;
+
+export const frameSize = (source: FrameSource) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.width, height: source.height };
+
+export interface SampledFrame {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface FrameSamplerStats {
+  kbps: number;
+  level: number;
+  sent: number;
+  skipped: number;
+}
+
+export interface FrameSampler {
+  // `stream` keeps change detection separate for sources sent in alternation (screen / camera)
+  sample: (source: FrameSource, canvas: HTMLCanvasElement, filter: string, stream?: string) => Promise<SampledFrame | null>;
+  getStats: () => FrameSamplerStats;
+}
+
+const toJpeg = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+
+export function createFrameSampler(settings: FrameUploadSettings): FrameSampler {
+  const signatureCanvas = document.createElement('canvas');
+  signatureCanvas.width = SIGNATURE_WIDTH;
+  signatureCanvas.height = SIGNATURE_HEIGHT;
+  const signatureCtx = signatureCanvas.getContext('2d', { willReadFrequently: true });
+
+  const lastSignatures = new Map<string, Float32Array>();
+  const lastSentAt = new Map<string, number>();
+  let level = 0;
+  let lastLevelChange = 0;
+  let busy = false;
+  let sentCount = 0;
+  let skippedCount = 0;
+  const history: { at: number; bytes: number }[] = [];
+
+  // Tiny grayscale thumbnail used to measure how much the scene changed
+  const computeSignature = (source: FrameSource): Float32Array | null => {
+    if (!signatureCtx) return null;
+    signatureCtx.drawImage(source, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+    const { data } = signatureCtx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+    const signature = new Float32Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+    for (let i = 0; i < signature.length; i++) {
+      signature[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    }
+    return signature;
+  };
+
+  const difference = (a: Float32Array, b: Float32Array) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+    return sum / a.length;
+  };
+
+  const currentKbps = (now: number) => {
+    while (history.length && now - history[0].at > BANDWIDTH_WINDOW_MS) history.shift();
+    const bytes = history.reduce((total, entry) => total + entry.bytes, 0);
+    return (bytes * 8) / (BANDWIDTH_WINDOW_MS / 1000) / 1000;
+  };
+
+  const adapt = (now: number, kbps: number) => {
+    if (!settings.bandwidthKbps) return;
+    if (kbps > settings.bandwidthKbps && level < QUALITY_LADDER.length - 1) {
+      level++;
+      lastLevelChange = now;
+    } else if (kbps < settings.bandwidthKbps * 0.5 && level > 0 && now - lastLevelChange > LEVEL_UP_COOLDOWN_MS) {
+      level--;
+      lastLevelChange = now;
+    }
+  };
+
+  return {
+    sample: async (source, canvas, filter, stream = 'main') => {
+      const { width, height } = frameSize(source);
+      if (busy || !width || !height) return null;
+      busy = true;
+      try {
+        const now = performance.now();
+        const keyframeDue = now - (lastSentAt.get(stream) ?? -Infinity) >= KEYFRAME_INTERVAL_MS;
+        const lastSignature = lastSignatures.get(stream);
+
+        const signature = settings.changeThreshold > 0 ? computeSignature(source) : null;
+        if (signature && lastSignature && !keyframeDue && difference(signature, lastSignature) < settings.changeThreshold) {
+          skippedCount++;
+          return null;
+        }
+
+        const kbps = currentKbps(now);
+        adapt(now, kbps);
+        // Still over budget at the lowest rung: hold off until the window drains
+        if (settings.bandwidthKbps && kbps > settings.bandwidthKbps && level === QUALITY_LADDER.length - 1 && !keyframeDue) {
+          skippedCount++;
+          return null;
+        }
+
+        const { scale, jpegQuality } = QUALITY_LADDER[level];
+        const longEdge = Math.max(width, height);
+        const ratio = (Math.min(longEdge, settings.maxDimension) * scale) / longEdge;
+        canvas.width = Math.round(width * ratio);
+        canvas.height = Math.round(height * ratio);
+
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+        ctx.filter = filter;
+        ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+        const blob = await toJpeg(canvas, jpegQuality);
+        if (!blob) return null;
+
+        if (signature) lastSignatures.set(stream, signature);
+        lastSentAt.set(stream, now);
+        sentCount++;
+        history.push({ at: now, bytes: blob.size });
+        return { blob, width: canvas.width, height: canvas.height };
+      } finally {
+        busy = false;
+      }
+    },
+    getStats: () => ({ kbps: currentKbps(performance.now()), level, sent: sentCount, skipped: skippedCount }),
+  };
+}
@@ -0,0 +1,28 @@
+import { GoogleGenAI } from '@google/genai';
+import { LiveTransport } from './liveTransport';
+import { requestLiveToken } from './liveTokens';
+
+export const GEMINI_LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+interface GeminiTransportOptions {
+  tokenUrl?: string;
+  getAccessToken: () => string | null;
+  model?: string;
+}
+
+// No API key in the client: each connect fetches an ephemeral token from the broker
+export function createGeminiTransport({ tokenUrl, getAccessToken, model = GEMINI_LIVE_MODEL }: GeminiTransportOptions): LiveTransport {
+  return {
+    name: 'gemini',
+    configError: () => {
+      if (!tokenUrl) return 'LIVE_TOKEN_BROKER_UNSET';
+      return getAccessToken() ? null : 'SESSION_EXPIRED';
+    },
+    connect: async ({ config, callbacks }) => {
+      const token = await requestLiveToken(tokenUrl!, getAccessToken() ?? '');
+      // Ephemeral tokens are only accepted on the v1alpha surface
+      const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+      return ai.live.connect({ model, config, callbacks });
+    },
+  };
+}
@@ -0,0 +1,74 @@
+// Global keyboard shortcuts. Bindings are combo strings like "Ctrl+K" or "Alt+Shift+V";
+// letters and digits are matched by physical key so Alt combos work on every layout.
+
+export type HotkeyAction =
+  | 'openPalette'
+  | 'toggleCall'
+  | 'toggleMute'
+  | 'toggleVideo'
+  | 'toggleScreenShare'
+  | 'toggleFilters'
+  | 'togglePiP'
+  | 'toggleRecording'
+  | 'takeSnapshot'
+  | 'toggleSidebar';
+
+export type Keymap = Record<HotkeyAction, string>; // '' = unbound
+
+export const HOTKEY_ACTIONS: HotkeyAction[] = [
+  'openPalette', 'toggleCall', 'toggleMute', 'toggleVideo', 'toggleScreenShare', 'toggleFilters', 'togglePiP', 'toggleRecording', 'takeSnapshot', 'toggleSidebar',
+];
+
+export const DEFAULT_KEYMAP: Keymap = {
+  openPalette: 'Ctrl+K',
+  toggleCall: 'Alt+C',
+  toggleMute: 'Alt+M',
+  toggleVideo: 'Alt+V',
+  toggleScreenShare: 'Alt+S',
+  toggleFilters: 'Alt+F',
+  togglePiP: 'Alt+P',
+  toggleRecording: 'Alt+R',
+  takeSnapshot: 'Alt+N',
+  toggleSidebar: 'Alt+O',
+};
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock'];
+
+// Normalized combo for a key press; null for a lone modifier. Cmd counts as Ctrl.
+export function comboFromEvent(e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const key = /^(Key|Digit)/.test(e.code) ? e.code.replace(/^(Key|Digit)/, '') : e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  return [e.ctrlKey || e.metaKey ? 'Ctrl' : '', e.altKey ? 'Alt' : '', e.shiftKey ? 'Shift' : '', key].filter(Boolean).join('+');
+}
+
+export const actionForCombo = (keymap: Keymap, combo: string): HotkeyAction | null =>
+  HOTKEY_ACTIONS.find(action => keymap[action] === combo) ?? null;
+
+// Gives the combo to one action, unbinding whichever action had it
+export function bindHotkey(keymap: Keymap, action: HotkeyAction, combo: string): Keymap {
+  const next = { ...keymap };
+  HOTKEY_ACTIONS.forEach(other => {
+    if (next[other] === combo) next[other] = '';
+  });
+  next[action] = combo;
+  return next;
+}
+
+// Subsequence match: every query character in order. Higher is better; consecutive runs and
+// word starts score extra. null when it doesn't match at all.
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, '');
+  if (!q) return 0;
+  const target = text.toLowerCase();
+  let score = 0;
+  let run = 0;
+  let from = 0;
+  for (const char of q) {
+    const index = target.indexOf(char, from);
+    if (index === -1) return null;
+    run = index === from ? run + 1 : 1;
+    score += run * 2 + (index === 0 || /[\s_\-/]/.test(target[index - 1]) ? 3 : 0) - Math.min(index - from, 5);
+    from = index + 1;
+  }
+  return score;
+}
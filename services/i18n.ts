@@ -0,0 +1,90 @@
+import { createContext, useContext } from 'react';
+import { UiLanguage } from '../types';
+import { en, MessageKey } from '../locales/en';
+import { bn } from '../locales/bn';
+import { hi } from '../locales/hi';
+
+// UI language: message lookup with English fallback, plus Intl formatting for the
+// matching locale so digits and clock times read naturally (e.g. Bengali numerals).
+
+export const UI_LANGUAGES: { id: UiLanguage; label: string; locale: string; englishName: string }[] = [
+  { id: 'en', label: 'ENGLISH', locale: 'en-US', englishName: 'English' },
+  { id: 'bn', label: 'বাংলা', locale: 'bn-BD', englishName: 'Bengali' },
+  { id: 'hi', label: 'हिन्दी', locale: 'hi-IN', englishName: 'Hindi' },
+];
+
+const CATALOGS: Record<UiLanguage, Partial<Record<MessageKey, string>>> = { en, bn, hi };
+
+export type MessageVars = Record<string, string | number>;
+
+export interface Translator {
+  language: UiLanguage;
+  locale: string;
+  t: (key: MessageKey, vars?: MessageVars) => string;
+  // errorMsg values are codes, optionally "A / B" lists or "CODE // N_ATTEMPTS_LEFT"
+  error: (message: string) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatTime: (value: number | Date) => string;
+  formatDateTime: (value: number | Date) => string;
+}
+
+export function createTranslator(language: UiLanguage): Translator {
+  const locale = UI_LANGUAGES.find(l => l.id === language)?.locale ?? 'en-US';
+  const catalog = CATALOGS[language] ?? en;
+  const numbers = new Intl.NumberFormat(locale);
+  const times = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
+  const dateTimes = new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'medium', hour12: false });
+
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+    (options ? new Intl.NumberFormat(locale, options) : numbers).format(value);
+
+  const t = (key: MessageKey, vars?: MessageVars) => {
+    const template = catalog[key] ?? en[key] ?? key;
+    if (!vars) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = vars[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? formatNumber(value) : value;
+    });
+  };
+
+  const errorCode = (code: string) => {
+    const key = `error.${code}` as MessageKey;
+    return key in en ? t(key) : code;
+  };
+
+  const error = (message: string) =>
+    message.split(' / ').map(part => {
+      const [code, detail] = part.split(' // ');
+      const attempts = detail?.match(/^(\d+)_ATTEMPTS_LEFT$/);
+      if (attempts) return `${errorCode(code)} // ${t('error.attemptsLeft', { count: Number(attempts[1]) })}`;
+      return detail ? `${errorCode(code)} // ${detail}` : errorCode(code);
+    }).join(' / ');
+
+  return {
+    language,
+    locale,
+    t,
+    error,
+    formatNumber,
+    formatTime: value => times.format(value),
+    formatDateTime: value => dateTimes.format(value),
+  };
+}
+
+export const I18nContext = createContext<Translator>(createTranslator('en'));
+
+export const useI18n = () => useContext(I18nContext);
+
+// --- Preferences ---
+
+export interface LanguagePrefs {
+  language: UiLanguage;
+  replyInLanguage: boolean; // ask Rinu to answer in the UI language
+}
+
+// Appended to the persona's system instruction when replyInLanguage is on
+export function replyLanguageInstruction(language: UiLanguage): string {
+  const name = UI_LANGUAGES.find(l => l.id === language)?.englishName ?? 'English';
+  return `Always respond in ${name}, even if the operator writes or speaks in another language.`;
+}
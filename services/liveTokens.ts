@@ -0,0 +1,29 @@
+// Client side of the Live API token broker (server/liveTokenBroker.ts). Every connect,
+// including reconnects, trades the operator's access token for a fresh single-use token.
+
+export const DEFAULT_LIVE_TOKEN_URL = 'http://localhost:8788/live/token';
+
+// Broker failures carry an UPPER_SNAKE code for the UI; retryable ones are worth another connect attempt
+export class LiveTokenError extends Error {
+  constructor(readonly code: string, readonly retryable: boolean) {
+    super(code);
+    this.name = 'LiveTokenError';
+  }
+}
+
+export async function requestLiveToken(url: string, accessToken: string): Promise<string> {
+  let res: Response;
+  try {
+    res = await fetch(url, { method: 'POST', headers: { Authorization: `Bearer ${accessToken}` } });
+  } catch {
+    throw new LiveTokenError('LIVE_TOKEN_BROKER_UNREACHABLE', true);
+  }
+
+  const payload = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const retryable = res.status === 429 || (res.status >= 500 && res.status !== 503);
+    throw new LiveTokenError(payload.error || `LIVE_TOKEN_REFUSED_${res.status}`, retryable);
+  }
+  if (!payload.token) throw new LiveTokenError('LIVE_TOKEN_REFUSED', false);
+  return payload.token;
+}
@@ -0,0 +1,28 @@
+import {
+  LiveCallbacks,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+
+// The subset of a live session the call logic relies on. Adapters map it onto
+// a concrete backend (the Gemini Live API, the local mock server, ...).
+export interface LiveSession {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendClientContent: (params: LiveSendClientContentParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+export interface LiveConnectOptions {
+  config: LiveConnectConfig;
+  callbacks: LiveCallbacks;
+}
+
+export interface LiveTransport {
+  readonly name: string;
+  // Error code to surface when the transport can't be used, null when ready
+  configError: () => string | null;
+  connect: (options: LiveConnectOptions) => Promise<LiveSession>;
+}
@@ -0,0 +1,43 @@
+import { AuthError, AuthProvider, AuthSession, OtpChallenge } from './authProvider';
+
+export const DEFAULT_AUTH_URL = 'http://localhost:8788';
+
+interface LocalAuthProviderOptions {
+  url?: string;
+}
+
+export function createLocalAuthProvider({ url = DEFAULT_AUTH_URL }: LocalAuthProviderOptions): AuthProvider {
+  const call = async <T>(path: string, body: unknown, accessToken?: string): Promise<T> => {
+    let res: Response;
+    try {
+      res = await fetch(`${url}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+    } catch {
+      throw new AuthError('AUTH_SERVER_UNREACHABLE');
+    }
+    if (res.status === 204) return undefined as T;
+
+    const payload = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new AuthError(payload.error || `AUTH_HTTP_${res.status}`, {
+        attemptsLeft: payload.attemptsLeft,
+        retryAfterMs: payload.retryAfterMs,
+      });
+    }
+    return payload as T;
+  };
+
+  return {
+    name: 'local',
+    requestOtp: phone => call<OtpChallenge>('/otp/request', { phone }),
+    verifyOtp: (phone, code) => call<AuthSession>('/otp/verify', { phone, code }),
+    refresh: refreshToken => call<AuthSession>('/token/refresh', { refreshToken }),
+    logout: session => call<void>('/logout', { refreshToken: session.refreshToken }, session.accessToken),
+  };
+}
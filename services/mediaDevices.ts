@@ -0,0 +1,63 @@
+import { MediaDeviceKindName, MediaDeviceSelection } from '../types';
+
+export const DEFAULT_DEVICE_SELECTION: MediaDeviceSelection = { cameraId: '', micId: '', speakerId: '' };
+
+export interface MediaDeviceLists {
+  cameras: MediaDeviceInfo[];
+  mics: MediaDeviceInfo[];
+  speakers: MediaDeviceInfo[];
+}
+
+const SELECTION_FIELDS: Record<MediaDeviceKindName, keyof MediaDeviceSelection> = {
+  camera: 'cameraId',
+  mic: 'micId',
+  speaker: 'speakerId',
+};
+
+const LIST_FIELDS: Record<MediaDeviceKindName, keyof MediaDeviceLists> = {
+  camera: 'cameras',
+  mic: 'mics',
+  speaker: 'speakers',
+};
+
+// Labels are only filled in once the page holds a media permission
+export async function listMediaDevices(): Promise<MediaDeviceLists> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    cameras: devices.filter(d => d.kind === 'videoinput' && d.deviceId),
+    mics: devices.filter(d => d.kind === 'audioinput' && d.deviceId),
+    speakers: devices.filter(d => d.kind === 'audiooutput' && d.deviceId),
+  };
+}
+
+export const supportsSpeakerSelection = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+// Route an output context to a speaker ('' = system default)
+export async function applySpeaker(context: AudioContext, speakerId: string) {
+  if (!supportsSpeakerSelection()) return;
+  await (context as AudioContext & { setSinkId: (id: string) => Promise<void> }).setSinkId(speakerId);
+}
+
+// Kinds whose saved device is no longer plugged in. An empty list means no permission
+// yet (ids are hidden), not that everything was unplugged.
+export function findMissingDevices(selection: MediaDeviceSelection, lists: MediaDeviceLists): MediaDeviceKindName[] {
+  return (Object.keys(SELECTION_FIELDS) as MediaDeviceKindName[]).filter(kind => {
+    const id = selection[SELECTION_FIELDS[kind]];
+    const devices = lists[LIST_FIELDS[kind]];
+    return id !== '' && devices.length > 0 && !devices.some(d => d.deviceId === id);
+  });
+}
+
+export function clearDevices(selection: MediaDeviceSelection, kinds: MediaDeviceKindName[]): MediaDeviceSelection {
+  const next = { ...selection };
+  kinds.forEach(kind => { next[SELECTION_FIELDS[kind]] = ''; });
+  return next;
+}
+
+// Identity of whatever the OS currently routes a kind to, to spot "headset plugged in" changes
+export function defaultDeviceSignature(lists: MediaDeviceLists, kind: MediaDeviceKindName): string {
+  const devices = lists[LIST_FIELDS[kind]];
+  const device = devices.find(d => d.deviceId === 'default') ?? devices[0];
+  return device ? `${device.groupId}:${device.label}` : '';
+}
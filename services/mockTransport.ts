@@ -0,0 +1,56 @@
+import { LiveServerMessage } from '@google/genai';
+import { LiveTransport } from './liveTransport';
+
+export const DEFAULT_MOCK_LIVE_URL = 'ws://localhost:8787';
+
+// Client -> mock server frames. The server answers with LiveServerMessage-shaped JSON.
+export type MockClientFrame =
+  | { type: 'setup'; config: unknown }
+  | { type: 'realtimeInput'; params: unknown }
+  | { type: 'clientContent'; params: unknown }
+  | { type: 'toolResponse'; params: unknown };
+
+interface MockTransportOptions {
+  url?: string;
+}
+
+export function createMockTransport({ url = DEFAULT_MOCK_LIVE_URL }: MockTransportOptions): LiveTransport {
+  return {
+    name: 'mock',
+    configError: () => null,
+    connect: ({ config, callbacks }) =>
+      new Promise((resolve, reject) => {
+        const socket = new WebSocket(url);
+        const send = (frame: MockClientFrame) => {
+          if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(frame));
+        };
+        let opened = false;
+
+        socket.onopen = () => {
+          opened = true;
+          send({ type: 'setup', config });
+          callbacks.onopen?.();
+          resolve({
+            sendRealtimeInput: params => send({ type: 'realtimeInput', params }),
+            sendClientContent: params => send({ type: 'clientContent', params }),
+            sendToolResponse: params => send({ type: 'toolResponse', params }),
+            close: () => socket.close(),
+          });
+        };
+        socket.onmessage = (e: MessageEvent<string>) => {
+          try {
+            callbacks.onmessage(JSON.parse(e.data) as LiveServerMessage);
+          } catch (err) {
+            console.error("Mock uplink sent malformed frame:", err);
+          }
+        };
+        socket.onerror = (e) => {
+          if (!opened) reject(new Error(`Mock live server unreachable at ${url}`));
+          callbacks.onerror?.(e as ErrorEvent);
+        };
+        socket.onclose = (e) => {
+          callbacks.onclose?.(e);
+        };
+      }),
+  };
+}
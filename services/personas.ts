@@ -0,0 +1,49 @@
+import { PersonaPreset } from '../types';
+import { SPEECH_LANGUAGES } from '../constants';
+
+export const BUILTIN_PERSONAS: PersonaPreset[] = [
+  {
+    id: 'builtin-tactical',
+    name: 'TACTICAL',
+    voiceName: 'Kore',
+    languageCode: '',
+    instruction: "You are Rinu, a tactical AI interface. The operator's alias is ${userName}. Keep responses concise, robotic but helpful, and mission-oriented.",
+    builtIn: true,
+  },
+  {
+    id: 'builtin-analyst',
+    name: 'ANALYST',
+    voiceName: 'Charon',
+    languageCode: '',
+    instruction: "You are Rinu, a meticulous technical analyst. The operator's alias is ${userName}. Today is ${date}. Walk through problems step by step, call out assumptions, and read exact values back when asked.",
+    builtIn: true,
+  },
+  {
+    id: 'builtin-mentor',
+    name: 'MENTOR',
+    voiceName: 'Aoede',
+    languageCode: '',
+    instruction: "You are Rinu, a patient and friendly mentor. The operator's alias is ${userName}. Explain things plainly, check for understanding, and keep a warm, encouraging tone.",
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_PERSONA = BUILTIN_PERSONAS[0];
+
+interface PersonaVariables {
+  userName: string;
+  languageCode: string;
+}
+
+// Substitute ${name} placeholders; unknown names are left untouched
+export function renderPersonaInstruction(template: string, { userName, languageCode }: PersonaVariables): string {
+  const now = new Date();
+  const values: Record<string, string> = {
+    userName: userName || 'User',
+    date: now.toLocaleDateString(),
+    time: now.toLocaleTimeString(),
+    // Auto-detect ('') has no language to name, only a UI label
+    language: (languageCode && SPEECH_LANGUAGES.find(l => l.code === languageCode)?.label) || 'the operator\'s language',
+  };
+  return template.replace(/\$\{(\w+)\}/g, (match, name: string) => values[name] ?? match);
+}
@@ -0,0 +1,180 @@
+// Plays Rinu's streamed PCM replies. Owns the output AudioContext and its graph:
+//
+//   sources -> voice (interrupt fades) -> duck -> analyser -> master (volume) -> speakers
+//
+// The analyser sits before the master volume so the HUD and recordings see Rinu's
+// actual output no matter how loud the operator has set their speakers.
+
+export const PLAYBACK_SAMPLE_RATE = 24000;
+export const JITTER_BUFFER_OPTIONS_MS = [0, 60, 120, 250, 500];
+export const DEFAULT_JITTER_BUFFER_MS = 120;
+
+const DEFAULT_DUCK_LEVEL = 0.35;
+const DEFAULT_FADE_MS = 80;
+const GAIN_TIME_CONSTANT = 0.04;
+
+export interface PlaybackEngineOptions {
+  sampleRate?: number;
+  jitterBufferMs?: number; // audio to queue before a reply starts playing
+  volume?: number;
+  duckLevel?: number; // voice gain while ducked
+  onUnderrun?: (underruns: number) => void;
+}
+
+export interface PlaybackStats {
+  underruns: number;
+  bufferedMs: number;
+}
+
+export class PlaybackEngine {
+  readonly context: AudioContext;
+  // Tap of Rinu's voice for analysis and recording
+  readonly analyser: AnalyserNode;
+
+  private readonly voice: GainNode;
+  private readonly duck: GainNode;
+  private readonly master: GainNode;
+  private readonly sampleRate: number;
+  private readonly jitterBufferMs: number;
+  private readonly duckLevel: number;
+  private readonly onUnderrun?: (underruns: number) => void;
+
+  private sources = new Set<AudioBufferSourceNode>();
+  private pending: AudioBuffer[] = [];
+  private pendingTimer: number | null = null;
+  private nextStartTime = 0;
+  private turnOpen = false;
+  private underruns = 0;
+
+  constructor(options: PlaybackEngineOptions = {}) {
+    this.sampleRate = options.sampleRate ?? PLAYBACK_SAMPLE_RATE;
+    this.jitterBufferMs = options.jitterBufferMs ?? DEFAULT_JITTER_BUFFER_MS;
+    this.duckLevel = options.duckLevel ?? DEFAULT_DUCK_LEVEL;
+    this.onUnderrun = options.onUnderrun;
+
+    this.context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: this.sampleRate });
+    this.voice = this.context.createGain();
+    this.duck = this.context.createGain();
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 512;
+    this.analyser.smoothingTimeConstant = 0.7;
+    this.master = this.context.createGain();
+    this.master.gain.value = options.volume ?? 1;
+
+    this.voice.connect(this.duck);
+    this.duck.connect(this.analyser);
+    this.analyser.connect(this.master);
+    this.master.connect(this.context.destination);
+  }
+
+  // Queue a chunk of 16-bit little-endian mono PCM
+  enqueue(pcm: Uint8Array) {
+    const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+    const buffer = this.context.createBuffer(1, samples.length, this.sampleRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) channel[i] = samples[i] / 32768;
+
+    this.turnOpen = true;
+    if (this.isPlaying()) {
+      this.schedule(buffer);
+      return;
+    }
+
+    // Idle (new reply, or recovering from an underrun): build up the jitter buffer first
+    this.pending.push(buffer);
+    if (this.pendingMs() >= this.jitterBufferMs) {
+      this.flushPending();
+    } else if (this.pendingTimer === null) {
+      // Short replies shouldn't wait forever for a buffer they'll never fill
+      this.pendingTimer = window.setTimeout(() => this.flushPending(), this.jitterBufferMs * 2);
+    }
+  }
+
+  // The model finished its turn: play whatever is held back, and stop expecting more
+  endTurn() {
+    this.turnOpen = false;
+    this.flushPending();
+  }
+
+  // Barge-in: fade out quickly instead of cutting mid-sample
+  interrupt(fadeMs = DEFAULT_FADE_MS) {
+    const now = this.context.currentTime;
+    const fadeEnd = now + fadeMs / 1000;
+    this.voice.gain.cancelScheduledValues(now);
+    this.voice.gain.setValueAtTime(this.voice.gain.value, now);
+    this.voice.gain.linearRampToValueAtTime(0, fadeEnd);
+    this.voice.gain.setValueAtTime(1, fadeEnd);
+
+    this.sources.forEach(source => {
+      source.onended = null;
+      source.stop(fadeEnd);
+    });
+    this.sources.clear();
+    this.clearPending();
+    this.nextStartTime = 0;
+    this.turnOpen = false;
+  }
+
+  setVolume(volume: number) {
+    this.master.gain.setTargetAtTime(Math.max(0, Math.min(1, volume)), this.context.currentTime, GAIN_TIME_CONSTANT);
+  }
+
+  setDucking(ducked: boolean) {
+    this.duck.gain.setTargetAtTime(ducked ? this.duckLevel : 1, this.context.currentTime, GAIN_TIME_CONSTANT);
+  }
+
+  getStats(): PlaybackStats {
+    const scheduledMs = Math.max(0, this.nextStartTime - this.context.currentTime) * 1000;
+    return { underruns: this.underruns, bufferedMs: scheduledMs + this.pendingMs() };
+  }
+
+  close() {
+    this.sources.forEach(source => {
+      source.onended = null;
+      source.stop();
+    });
+    this.sources.clear();
+    this.clearPending();
+    return this.context.close();
+  }
+
+  private isPlaying() {
+    return this.sources.size > 0;
+  }
+
+  private pendingMs() {
+    return this.pending.reduce((total, buffer) => total + buffer.duration * 1000, 0);
+  }
+
+  private clearPending() {
+    if (this.pendingTimer !== null) {
+      clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+    this.pending = [];
+  }
+
+  private flushPending() {
+    const buffers = this.pending;
+    this.clearPending();
+    buffers.forEach(buffer => this.schedule(buffer));
+  }
+
+  private schedule(buffer: AudioBuffer) {
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.voice);
+    source.onended = () => {
+      this.sources.delete(source);
+      // Ran dry mid-reply: the network fell behind real time
+      if (this.sources.size === 0 && this.pending.length === 0 && this.turnOpen) {
+        this.underruns++;
+        this.onUnderrun?.(this.underruns);
+      }
+    };
+    this.nextStartTime = Math.max(this.nextStartTime, this.context.currentTime);
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+    this.sources.add(source);
+  }
+}
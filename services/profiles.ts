@@ -0,0 +1,113 @@
+import { MissionNote, OperatorProfile } from '../types';
+import { clearAuthSession, legacySessionPhone, loadAuthSession } from './authSession';
+import { claimUnownedHistory, deleteOperatorHistory } from './sessionHistory';
+import { getProfileSettings, removeProfileSettings, setProfileSetting, validateNote } from './settingsStore';
+
+// Operators known on this device. Everything personal (tokens, alias, and the profile's
+// section of the settings store and call history) is keyed by the profile's phone, so
+// switching is just a matter of which phone is active.
+
+interface ProfileStore {
+  activePhone: string | null;
+  profiles: OperatorProfile[];
+}
+
+const STORAGE_KEY = 'rinu_profiles';
+const LEGACY_USER_KEY = 'rinu_user'; // { phone, name } of the single operator, before profiles
+const LEGACY_NOTES_KEY = 'rinu_notes';
+
+// Most recently used first
+const sortProfiles = (profiles: OperatorProfile[]) => [...profiles].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+
+function saveStore(store: ProfileStore) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+// Data saved before profiles existed goes to the first operator on the device
+function adoptLegacyData(phone: string) {
+  const notes = localStorage.getItem(LEGACY_NOTES_KEY);
+  if (notes !== null) {
+    try {
+      const parsed = JSON.parse(notes);
+      const valid = Array.isArray(parsed) ? parsed.map(validateNote).filter((note): note is MissionNote => note !== null) : [];
+      if (valid.length && getProfileSettings(phone).notes.length === 0) setProfileSetting(phone, 'notes', valid);
+    } catch {
+      // unreadable; dropped
+    }
+    localStorage.removeItem(LEGACY_NOTES_KEY);
+  }
+  claimUnownedHistory(phone).catch(err => console.error("Error claiming session history:", err));
+}
+
+function migrateLegacyStore(): ProfileStore {
+  let legacyUser: { phone?: string; name?: string } = {};
+  try {
+    legacyUser = JSON.parse(localStorage.getItem(LEGACY_USER_KEY) ?? '{}') ?? {};
+  } catch {
+    // unreadable; treat as absent
+  }
+  const phone = legacySessionPhone() ?? legacyUser.phone ?? null;
+  const store: ProfileStore = { activePhone: phone, profiles: [] };
+  if (phone) {
+    store.profiles.push({ phone, name: legacyUser.phone === phone ? legacyUser.name ?? '' : '', lastUsedAt: Date.now() });
+    adoptLegacyData(phone);
+  }
+  localStorage.removeItem(LEGACY_USER_KEY);
+  saveStore(store);
+  return store;
+}
+
+export function loadProfiles(): ProfileStore {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (raw === null) return migrateLegacyStore();
+  try {
+    const parsed = JSON.parse(raw) as ProfileStore;
+    const profiles = Array.isArray(parsed.profiles) ? parsed.profiles.filter(p => typeof p?.phone === 'string' && p.phone) : [];
+    const activePhone = profiles.some(p => p.phone === parsed.activePhone) ? parsed.activePhone : null;
+    return { activePhone, profiles: sortProfiles(profiles) };
+  } catch {
+    return { activePhone: null, profiles: [] };
+  }
+}
+
+// Token of whichever profile is signed in, for backends that call the server themselves
+export function activeAccessToken(): string | null {
+  const { activePhone } = loadProfiles();
+  return activePhone ? loadAuthSession(activePhone)?.accessToken ?? null : null;
+}
+
+// Marks the phone as signed in, adding it to the device's list if new
+export function rememberProfile(phone: string): OperatorProfile[] {
+  const { profiles } = loadProfiles();
+  const existing = profiles.find(p => p.phone === phone);
+  if (!existing && profiles.length === 0) adoptLegacyData(phone);
+  const updated = sortProfiles([
+    { phone, name: existing?.name ?? '', lastUsedAt: Date.now() },
+    ...profiles.filter(p => p.phone !== phone),
+  ]);
+  saveStore({ activePhone: phone, profiles: updated });
+  return updated;
+}
+
+export function renameProfile(phone: string, name: string): OperatorProfile[] {
+  const store = loadProfiles();
+  const profiles = store.profiles.map(p => (p.phone === phone ? { ...p, name } : p));
+  saveStore({ ...store, profiles });
+  return profiles;
+}
+
+// Signed out (or switching): keeps the profile listed, just not active
+export function deactivateProfile() {
+  saveStore({ ...loadProfiles(), activePhone: null });
+}
+
+// Removes the profile and everything stored for it on this device
+export async function forgetProfile(phone: string): Promise<OperatorProfile[]> {
+  const store = loadProfiles();
+  const profiles = store.profiles.filter(p => p.phone !== phone);
+  saveStore({ activePhone: store.activePhone === phone ? null : store.activePhone, profiles });
+  clearAuthSession(phone);
+  removeProfileSettings(phone);
+  await deleteOperatorHistory(phone);
+  return profiles;
+}
@@ -0,0 +1,123 @@
+import { InsetCorner, ScreenShareLayout, ScreenShareMode } from '../types';
+import { FrameSource, frameSize } from './frameSampler';
+import { MessageKey } from '../locales/en';
+
+// Composites the shared screen with a camera inset on a canvas. Like the shader canvas,
+// the composite is what the operator sees, what gets recorded and what the model is sent.
+
+export const DEFAULT_SCREEN_LAYOUT: ScreenShareLayout = { mode: 'pip', corner: 'bottom-right', size: 0.25, position: null };
+
+export const SCREEN_SHARE_MODES: { value: ScreenShareMode; labelKey: MessageKey }[] = [
+  { value: 'screen', labelKey: 'share.mode.screen' },
+  { value: 'pip', labelKey: 'share.mode.pip' },
+  { value: 'alternate', labelKey: 'share.mode.alternate' },
+];
+
+export const INSET_CORNERS: { value: InsetCorner; labelKey: MessageKey }[] = [
+  { value: 'top-left', labelKey: 'share.corner.topLeft' },
+  { value: 'top-right', labelKey: 'share.corner.topRight' },
+  { value: 'bottom-left', labelKey: 'share.corner.bottomLeft' },
+  { value: 'bottom-right', labelKey: 'share.corner.bottomRight' },
+];
+
+export const MIN_INSET_SIZE = 0.1;
+export const MAX_INSET_SIZE = 0.5;
+
+const INSET_MARGIN = 0.02; // of the frame width
+const INSET_BORDER_PX = 3;
+const RESIZE_HANDLE_PX = 24;
+const MAX_COMPOSITE_DIMENSION = 1920;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export function insetRect(layout: ScreenShareLayout, frameWidth: number, frameHeight: number, cameraAspect: number): Rect {
+  const width = clamp(layout.size, MIN_INSET_SIZE, MAX_INSET_SIZE) * frameWidth;
+  const height = Math.min(width / cameraAspect, frameHeight);
+  const margin = INSET_MARGIN * frameWidth;
+  let x: number;
+  let y: number;
+  if (layout.position) {
+    x = layout.position.x * frameWidth;
+    y = layout.position.y * frameHeight;
+  } else {
+    x = layout.corner.endsWith('left') ? margin : frameWidth - width - margin;
+    y = layout.corner.startsWith('top') ? margin : frameHeight - height - margin;
+  }
+  return { x: clamp(x, 0, frameWidth - width), y: clamp(y, 0, frameHeight - height), width, height };
+}
+
+// Pointer hit on the inset: the bottom-right handle resizes, anywhere else moves it
+export function hitTestInset(rect: Rect, x: number, y: number): 'move' | 'resize' | null {
+  if (x < rect.x || y < rect.y || x > rect.x + rect.width || y > rect.y + rect.height) return null;
+  return x > rect.x + rect.width - RESIZE_HANDLE_PX && y > rect.y + rect.height - RESIZE_HANDLE_PX ? 'resize' : 'move';
+}
+
+// New layout after dragging the inset that started at `start` by (dx, dy) frame pixels
+export function dragInset(
+  layout: ScreenShareLayout,
+  action: 'move' | 'resize',
+  start: Rect,
+  dx: number,
+  dy: number,
+  frameWidth: number,
+  frameHeight: number,
+): ScreenShareLayout {
+  if (action === 'resize') {
+    const size = clamp((start.width + dx) / frameWidth, MIN_INSET_SIZE, MAX_INSET_SIZE);
+    return { ...layout, size, position: { x: start.x / frameWidth, y: start.y / frameHeight } };
+  }
+  const x = clamp(start.x + dx, 0, frameWidth - start.width);
+  const y = clamp(start.y + dy, 0, frameHeight - start.height);
+  return { ...layout, position: { x: x / frameWidth, y: y / frameHeight } };
+}
+
+export interface ScreenCompositor {
+  canvas: HTMLCanvasElement;
+  // false when the screen has no frame yet; the camera inset is skipped while it has none
+  draw: (screen: HTMLVideoElement, camera: { source: FrameSource; filter: string } | null, layout: ScreenShareLayout, borderColor: string) => boolean;
+  getInset: () => Rect | null; // where the last draw put the inset, in canvas pixels
+}
+
+export function createScreenCompositor(canvas: HTMLCanvasElement): ScreenCompositor {
+  const ctx = canvas.getContext('2d');
+  let lastInset: Rect | null = null;
+
+  return {
+    canvas,
+    draw: (screen, camera, layout, borderColor) => {
+      if (!ctx || !screen.videoWidth || !screen.videoHeight) return false;
+      const scale = Math.min(1, MAX_COMPOSITE_DIMENSION / Math.max(screen.videoWidth, screen.videoHeight));
+      const width = Math.round(screen.videoWidth * scale);
+      const height = Math.round(screen.videoHeight * scale);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      ctx.filter = 'none';
+      ctx.drawImage(screen, 0, 0, width, height);
+
+      const cameraSize = camera ? frameSize(camera.source) : null;
+      if (!camera || !cameraSize?.width || !cameraSize.height) {
+        lastInset = null;
+        return true;
+      }
+      const rect = insetRect(layout, width, height, cameraSize.width / cameraSize.height);
+      ctx.fillStyle = borderColor;
+      ctx.fillRect(rect.x - INSET_BORDER_PX, rect.y - INSET_BORDER_PX, rect.width + INSET_BORDER_PX * 2, rect.height + INSET_BORDER_PX * 2);
+      ctx.filter = camera.filter;
+      ctx.drawImage(camera.source, rect.x, rect.y, rect.width, rect.height);
+      ctx.filter = 'none';
+      lastInset = rect;
+      return true;
+    },
+    getInset: () => lastInset,
+  };
+}
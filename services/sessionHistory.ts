@@ -0,0 +1,117 @@
+import { CallRecording, SessionRecord } from '../types';
+
+const DB_NAME = 'rinu_history';
+const DB_VERSION = 2;
+const STORE_NAME = 'sessions';
+const RECORDINGS_STORE = 'recordings'; // v2
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Lists wait on an in-flight claim, so a first sign-in never reads history mid-handover
+let pendingClaim: Promise<void> = Promise.resolve();
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+          db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run a single request against one store and resolve with its result
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>, storeName = STORE_NAME): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export const createSessionId = () => `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export async function saveSession(record: SessionRecord): Promise<void> {
+  await withStore('readwrite', store => store.put(record));
+}
+
+export async function getSession(id: string): Promise<SessionRecord | undefined> {
+  return withStore('readonly', store => store.get(id));
+}
+
+// Newest first, only the given operator's calls
+export async function listSessions(operator: string): Promise<SessionRecord[]> {
+  await pendingClaim;
+  const sessions = await withStore<SessionRecord[]>('readonly', store => store.getAll());
+  return sessions.filter(s => s.operator === operator).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+// --- Call recordings ---
+
+export async function saveRecording(recording: CallRecording): Promise<void> {
+  await withStore('readwrite', store => store.put(recording), RECORDINGS_STORE);
+}
+
+// Newest first, only the given operator's recordings
+export async function listRecordings(operator: string): Promise<CallRecording[]> {
+  await pendingClaim;
+  const recordings = await withStore<CallRecording[]>('readonly', store => store.getAll(), RECORDINGS_STORE);
+  return recordings.filter(r => r.operator === operator).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id), RECORDINGS_STORE);
+}
+
+// --- Per-operator housekeeping ---
+
+// Hand records saved before profiles existed to the given operator, in one transaction
+export function claimUnownedHistory(operator: string): Promise<void> {
+  const claim = openDb().then(db => new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([STORE_NAME, RECORDINGS_STORE], 'readwrite');
+    [STORE_NAME, RECORDINGS_STORE].forEach(storeName => {
+      const request = tx.objectStore(storeName).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const record = cursor.value as SessionRecord | CallRecording;
+        if (!record.operator) cursor.update({ ...record, operator });
+        cursor.continue();
+      };
+    });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+  pendingClaim = claim.catch(() => undefined);
+  return claim;
+}
+
+export async function deleteOperatorHistory(operator: string): Promise<void> {
+  for (const storeName of [STORE_NAME, RECORDINGS_STORE]) {
+    const records = await withStore<(SessionRecord | CallRecording)[]>('readonly', store => store.getAll(), storeName);
+    for (const record of records.filter(r => r.operator === operator)) {
+      await withStore('readwrite', store => store.delete(record.id), storeName);
+    }
+  }
+}
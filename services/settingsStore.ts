@@ -0,0 +1,416 @@
+import { FilterPreset, FrameUploadSettings, MediaDeviceSelection, MicMode, MissionNote, PersonaPreset, ScreenShareLayout, ThemeDefinition, VisualizerStyle } from '../types';
+import { THEMES, VISUALIZER_STYLES } from '../constants';
+import { CAPTURE_CHUNK_SIZES, DEFAULT_CAPTURE_CHUNK_SIZE } from './audioCapture';
+import { DEFAULT_JITTER_BUFFER_MS, JITTER_BUFFER_OPTIONS_MS } from './playbackEngine';
+import { BANDWIDTH_CAPS, CHANGE_THRESHOLDS, DEFAULT_FRAME_SETTINGS, FRAME_RATES, UPLOAD_DIMENSIONS } from './frameSampler';
+import { DEFAULT_SCREEN_LAYOUT, INSET_CORNERS, MAX_INSET_SIZE, MIN_INSET_SIZE, SCREEN_SHARE_MODES } from './screenComposite';
+import { DEFAULT_THEME, normalizeTheme } from './themes';
+import { LanguagePrefs, UI_LANGUAGES } from './i18n';
+import { DEFAULT_PERSONA } from './personas';
+import { DEFAULT_DEVICE_SELECTION } from './mediaDevices';
+import { ADJUSTMENT_CONTROLS, DEFAULT_ADJUSTMENTS } from './filterPresets';
+import { SHADER_EFFECTS } from './shaderFilters';
+import { DEFAULT_KEYMAP, HOTKEY_ACTIONS, Keymap } from './hotkeys';
+
+// All preferences in one versioned localStorage document: device-wide sections plus one
+// section per operator profile. Every read is validated field by field, so a corrupt or
+// hand-edited value falls back to its default instead of breaking startup. Auth tokens and
+// the profile list are session state, not preferences, and stay in their own keys.
+
+export const SETTINGS_VERSION = 1;
+
+const STORAGE_KEY = 'rinu_settings';
+const EXPORT_FORMAT = 'rinu-settings';
+
+export interface ThemePrefs {
+  themeId: string;
+  showGrid: boolean;
+  showScanlines: boolean;
+  visualizerStyle: VisualizerStyle;
+}
+
+export interface AudioPrefs {
+  chunkSize: number;
+  micMode: MicMode;
+  volume: number;
+  jitterBufferMs: number;
+  duckOnSpeech: boolean;
+}
+
+export interface AccessibilityPrefs {
+  highContrast: boolean;
+  reduceMotion: boolean; // on top of the OS preference, which always applies
+}
+
+export interface PersonaPrefs {
+  presets: PersonaPreset[];
+  activeId: string;
+}
+
+export interface DeviceSection {
+  theme: ThemePrefs; // also what the auth screen shows
+  audio: AudioPrefs;
+  video: FrameUploadSettings;
+  screenShare: ScreenShareLayout;
+  language: LanguagePrefs;
+  customThemes: ThemeDefinition[];
+  keymap: Keymap;
+  accessibility: AccessibilityPrefs;
+}
+
+export interface ProfileSection {
+  theme: ThemePrefs | null; // null follows the device theme
+  personas: PersonaPrefs;
+  devices: MediaDeviceSelection;
+  filters: FilterPreset[];
+  notes: MissionNote[];
+}
+
+export interface Settings {
+  version: number;
+  device: DeviceSection;
+  profiles: Record<string, ProfileSection>;
+}
+
+export class SettingsImportError extends Error {
+  constructor(readonly code: string) {
+    super(code);
+  }
+}
+
+// --- Validation ---
+
+const MIC_MODES: MicMode[] = ['always', 'ptt', 'vad'];
+
+type StoredObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is StoredObject => !!value && typeof value === 'object' && !Array.isArray(value);
+// The object's fields, or none at all, so every field still goes through its own check
+const fields = (value: unknown): StoredObject => (isObject(value) ? value : {});
+const oneOf = <T>(value: unknown, allowed: readonly T[], fallback: T): T => (allowed.includes(value as T) ? (value as T) : fallback);
+const bool = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+const str = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+const num = (value: unknown, fallback: number) => (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+const clamp = (value: unknown, min: number, max: number, fallback: number) => Math.max(min, Math.min(max, num(value, fallback)));
+const list = <T>(value: unknown, item: (entry: unknown) => T | null): T[] =>
+  Array.isArray(value) ? value.map(item).filter((entry): entry is T => entry !== null) : [];
+
+const DEFAULT_THEME_PREFS: ThemePrefs = { themeId: DEFAULT_THEME.id, showGrid: true, showScanlines: true, visualizerStyle: 'ring' };
+
+function validateThemePrefs(input: unknown): ThemePrefs {
+  const value = fields(input);
+  return {
+    themeId: str(value.themeId, DEFAULT_THEME_PREFS.themeId),
+    showGrid: bool(value.showGrid, true),
+    showScanlines: bool(value.showScanlines, true),
+    visualizerStyle: oneOf(value.visualizerStyle, VISUALIZER_STYLES, DEFAULT_THEME_PREFS.visualizerStyle),
+  };
+}
+
+function validateAudio(input: unknown): AudioPrefs {
+  const value = fields(input);
+  return {
+    chunkSize: oneOf(value.chunkSize, CAPTURE_CHUNK_SIZES, DEFAULT_CAPTURE_CHUNK_SIZE),
+    micMode: oneOf(value.micMode, MIC_MODES, 'always'),
+    volume: clamp(value.volume, 0, 1, 1),
+    jitterBufferMs: oneOf(value.jitterBufferMs, JITTER_BUFFER_OPTIONS_MS, DEFAULT_JITTER_BUFFER_MS),
+    duckOnSpeech: bool(value.duckOnSpeech, true),
+  };
+}
+
+function validateVideo(input: unknown): FrameUploadSettings {
+  const value = fields(input);
+  return {
+    maxDimension: oneOf(value.maxDimension, UPLOAD_DIMENSIONS, DEFAULT_FRAME_SETTINGS.maxDimension),
+    frameRate: oneOf(value.frameRate, FRAME_RATES, DEFAULT_FRAME_SETTINGS.frameRate),
+    changeThreshold: oneOf(value.changeThreshold, CHANGE_THRESHOLDS.map(t => t.value), DEFAULT_FRAME_SETTINGS.changeThreshold),
+    bandwidthKbps: oneOf(value.bandwidthKbps, BANDWIDTH_CAPS, DEFAULT_FRAME_SETTINGS.bandwidthKbps),
+  };
+}
+
+function validateScreenShare(input: unknown): ScreenShareLayout {
+  const value = fields(input);
+  const position = isObject(value.position) ? value.position : null;
+  return {
+    mode: oneOf(value.mode, SCREEN_SHARE_MODES.map(m => m.value), DEFAULT_SCREEN_LAYOUT.mode),
+    corner: oneOf(value.corner, INSET_CORNERS.map(c => c.value), DEFAULT_SCREEN_LAYOUT.corner),
+    size: clamp(value.size, MIN_INSET_SIZE, MAX_INSET_SIZE, DEFAULT_SCREEN_LAYOUT.size),
+    position: position && typeof position.x === 'number' && typeof position.y === 'number'
+      ? { x: clamp(position.x, 0, 1, 0), y: clamp(position.y, 0, 1, 0) }
+      : null,
+  };
+}
+
+function validateLanguage(input: unknown): LanguagePrefs {
+  const value = fields(input);
+  return {
+    language: oneOf(value.language, UI_LANGUAGES.map(l => l.id), 'en'),
+    replyInLanguage: bool(value.replyInLanguage, false),
+  };
+}
+
+function validatePersona(input: unknown): PersonaPreset | null {
+  if (!isObject(input) || typeof input.id !== 'string' || typeof input.name !== 'string' || typeof input.instruction !== 'string') return null;
+  return {
+    id: input.id,
+    name: input.name,
+    voiceName: str(input.voiceName, DEFAULT_PERSONA.voiceName),
+    languageCode: str(input.languageCode, ''),
+    instruction: input.instruction,
+    builtIn: false,
+  };
+}
+
+function validateFilter(input: unknown): FilterPreset | null {
+  if (!isObject(input) || typeof input.id !== 'string' || typeof input.name !== 'string') return null;
+  const stored = fields(input.adjustments);
+  // Slider by slider, within the editor's ranges; sliders added after a preset was saved get their default
+  const adjustments = { ...DEFAULT_ADJUSTMENTS };
+  ADJUSTMENT_CONTROLS.forEach(({ key, min, max }) => {
+    adjustments[key] = clamp(stored[key], min, max, DEFAULT_ADJUSTMENTS[key]);
+  });
+  return {
+    id: input.id,
+    name: input.name,
+    adjustments,
+    shader: oneOf(input.shader, SHADER_EFFECTS.map(e => e.id), null),
+  };
+}
+
+export function validateNote(input: unknown): MissionNote | null {
+  if (!isObject(input) || typeof input.id !== 'string' || typeof input.text !== 'string') return null;
+  return { id: input.id, text: input.text, createdAt: num(input.createdAt, Date.now()) };
+}
+
+function validateAccessibility(input: unknown): AccessibilityPrefs {
+  const value = fields(input);
+  return { highContrast: bool(value.highContrast, false), reduceMotion: bool(value.reduceMotion, false) };
+}
+
+function validateKeymap(input: unknown): Keymap {
+  const value = fields(input);
+  return Object.fromEntries(HOTKEY_ACTIONS.map(action => [action, str(value[action], DEFAULT_KEYMAP[action])])) as Keymap;
+}
+
+function validateDevice(input: unknown): DeviceSection {
+  const value = fields(input);
+  return {
+    theme: validateThemePrefs(value.theme),
+    audio: validateAudio(value.audio),
+    video: validateVideo(value.video),
+    screenShare: validateScreenShare(value.screenShare),
+    language: validateLanguage(value.language),
+    customThemes: list(value.customThemes, normalizeTheme),
+    keymap: validateKeymap(value.keymap),
+    accessibility: validateAccessibility(value.accessibility),
+  };
+}
+
+function validateProfile(input: unknown): ProfileSection {
+  const value = fields(input);
+  const personas = fields(value.personas);
+  const devices = fields(value.devices);
+  return {
+    theme: isObject(value.theme) ? validateThemePrefs(value.theme) : null,
+    personas: { presets: list(personas.presets, validatePersona), activeId: str(personas.activeId, DEFAULT_PERSONA.id) },
+    devices: {
+      cameraId: str(devices.cameraId, DEFAULT_DEVICE_SELECTION.cameraId),
+      micId: str(devices.micId, DEFAULT_DEVICE_SELECTION.micId),
+      speakerId: str(devices.speakerId, DEFAULT_DEVICE_SELECTION.speakerId),
+    },
+    filters: list(value.filters, validateFilter),
+    notes: list(value.notes, validateNote),
+  };
+}
+
+function validateSettings(input: unknown): Settings {
+  const value = fields(input);
+  const profiles = fields(value.profiles);
+  return {
+    version: SETTINGS_VERSION,
+    device: validateDevice(value.device),
+    profiles: Object.fromEntries(Object.entries(profiles).map(([phone, profile]) => [phone, validateProfile(profile)])),
+  };
+}
+
+// --- Migrations ---
+
+// Keys each setting lived under before the store existed
+const LEGACY_DEVICE_KEYS = { theme: 'rinu_theme', audio: 'rinu_audio', video: 'rinu_video', screenShare: 'rinu_screen_share', language: 'rinu_language', customThemes: 'rinu_custom_themes' };
+const LEGACY_PROFILE_PREFIXES = { theme: 'rinu_theme_', personas: 'rinu_personas_', devices: 'rinu_devices_', filters: 'rinu_filters_', notes: 'rinu_notes_' };
+
+const readLegacy = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+// Version 0 is the scattered per-feature keys; validation fills whatever they lacked
+function collectLegacyKeys(): { document: StoredObject; keys: string[] } {
+  const keys: string[] = [];
+  const device: Record<string, unknown> = {};
+  Object.entries(LEGACY_DEVICE_KEYS).forEach(([section, key]) => {
+    if (localStorage.getItem(key) === null) return;
+    keys.push(key);
+    device[section] = readLegacy(key);
+  });
+  // themeIndex predates theme ids
+  const theme = device.theme;
+  if (isObject(theme) && theme.themeId === undefined && typeof theme.themeIndex === 'number') theme.themeId = THEMES[theme.themeIndex]?.id;
+
+  const profiles: Record<string, Record<string, unknown>> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)!;
+    const match = Object.entries(LEGACY_PROFILE_PREFIXES).find(([, prefix]) => key.startsWith(prefix) && key.length > prefix.length);
+    if (!match) continue;
+    const [section, prefix] = match;
+    keys.push(key);
+    (profiles[key.slice(prefix.length)] ??= {})[section] = readLegacy(key);
+  }
+  return { document: { version: 0, device, profiles }, keys };
+}
+
+// MIGRATIONS[n] upgrades a version-n document to n + 1
+const MIGRATIONS: Record<number, (document: StoredObject) => StoredObject> = {
+  0: document => ({ ...document, version: 1 }),
+};
+
+// Documents from before versioning count as version 0
+const versionOf = (document: StoredObject) => (typeof document.version === 'number' ? document.version : 0);
+
+function migrate(document: StoredObject): StoredObject {
+  let current = document;
+  while (versionOf(current) < SETTINGS_VERSION) {
+    const step = MIGRATIONS[versionOf(current)];
+    if (!step) break;
+    current = step(current);
+  }
+  return current;
+}
+
+// --- Store ---
+
+let cached: Settings | null = null;
+// Set while localStorage holds a document from a newer build: this one runs on defaults and
+// keeps its changes in memory, so it never overwrites what it can't represent
+let readOnly = false;
+
+function readStored(): Settings {
+  readOnly = false;
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (raw === null) {
+    const legacy = collectLegacyKeys();
+    const settings = validateSettings(migrate(legacy.document));
+    writeSettings(settings);
+    legacy.keys.forEach(key => localStorage.removeItem(key));
+    return settings;
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!isObject(parsed)) return validateSettings(null);
+    readOnly = versionOf(parsed) > SETTINGS_VERSION;
+    if (readOnly) {
+      console.warn(`Settings were saved by a newer version (${versionOf(parsed)}); using defaults without saving`);
+      return validateSettings(null);
+    }
+    return validateSettings(migrate(parsed));
+  } catch (err) {
+    console.error("Error reading settings, using defaults:", err);
+    return validateSettings(null);
+  }
+}
+
+function writeSettings(settings: Settings) {
+  cached = settings;
+  if (readOnly) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error("Error saving settings:", err);
+  }
+}
+
+export function getSettings(): Settings {
+  if (!cached) cached = readStored();
+  return cached;
+}
+
+export const getDeviceSettings = () => getSettings().device;
+
+export const getProfileSettings = (phone: string): ProfileSection => getSettings().profiles[phone] ?? validateProfile(null);
+
+export function setDeviceSetting<K extends keyof DeviceSection>(key: K, value: DeviceSection[K]) {
+  const settings = getSettings();
+  writeSettings({ ...settings, device: { ...settings.device, [key]: value } });
+}
+
+export function setProfileSetting<K extends keyof ProfileSection>(phone: string, key: K, value: ProfileSection[K]) {
+  const settings = getSettings();
+  writeSettings({ ...settings, profiles: { ...settings.profiles, [phone]: { ...getProfileSettings(phone), [key]: value } } });
+}
+
+export function removeProfileSettings(phone: string) {
+  const { [phone]: _removed, ...profiles } = getSettings().profiles;
+  writeSettings({ ...getSettings(), profiles });
+}
+
+// Another tab saved: reload and tell subscribers. Writes of an identical document don't
+// fire storage events, so tabs applying each other's changes settle instead of echoing.
+export function subscribeSettings(listener: (settings: Settings) => void): () => void {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY || e.storageArea !== localStorage) return;
+    cached = null;
+    listener(getSettings());
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
+
+// --- Export / import ---
+
+// The device sections plus the signed-in operator's own, to carry a setup to another machine
+export function exportSettings(phone: string | null) {
+  const settings = getSettings();
+  const payload = {
+    format: EXPORT_FORMAT,
+    version: SETTINGS_VERSION,
+    device: settings.device,
+    profile: phone ? getProfileSettings(phone) : null,
+  };
+  const url = URL.createObjectURL(new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `rinu-settings-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Validates an export file and applies it: device sections replaced, profile section
+// (if any) applied to the given operator
+export function importSettings(text: string, phone: string | null): Settings {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SettingsImportError('SETTINGS_FILE_MALFORMED');
+  }
+  if (!isObject(parsed) || parsed.format !== EXPORT_FORMAT || !isObject(parsed.device)) throw new SettingsImportError('SETTINGS_FILE_INVALID');
+  const { version } = parsed;
+  if (typeof version !== 'number' || version > SETTINGS_VERSION) throw new SettingsImportError('SETTINGS_FILE_UNSUPPORTED');
+
+  const imported = validateSettings(migrate({
+    version,
+    device: parsed.device,
+    profiles: phone && isObject(parsed.profile) ? { [phone]: parsed.profile } : {},
+  }));
+  const settings = getSettings();
+  const next: Settings = {
+    ...settings,
+    device: imported.device,
+    profiles: phone && imported.profiles[phone] ? { ...settings.profiles, [phone]: imported.profiles[phone] } : settings.profiles,
+  };
+  writeSettings(next);
+  return next;
+}
@@ -0,0 +1,189 @@
+import { ShaderEffect } from '../types';
+
+// GPU video effects CSS filters can't express. The renderer draws the camera frame
+// (with any CSS filter chain baked in first) through a fragment shader into a canvas;
+// that canvas is both what the operator sees and what the frame sampler uploads.
+
+export const SHADER_EFFECTS: { id: ShaderEffect; name: string }[] = [
+  { id: 'pixelate', name: 'PIXELATE' },
+  { id: 'edges', name: 'EDGE_DETECT' },
+  { id: 'thermal', name: 'THERMAL' },
+  { id: 'crt', name: 'CRT' },
+];
+
+// Keep the GPU pass affordable on 4K cameras
+const MAX_RENDER_DIMENSION = 1280;
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const FRAGMENT_HEADER = `
+precision mediump float;
+uniform sampler2D u_tex;
+uniform vec2 u_resolution;
+uniform float u_time;
+varying vec2 v_uv;
+float luma(vec3 c) { return dot(c, vec3(0.299, 0.587, 0.114)); }
+`;
+
+const FRAGMENT_SHADERS: Record<ShaderEffect, string> = {
+  pixelate: `
+void main() {
+  vec2 block = vec2(max(6.0, u_resolution.x / 96.0)) / u_resolution;
+  vec2 uv = (floor(v_uv / block) + 0.5) * block;
+  gl_FragColor = texture2D(u_tex, uv);
+}`,
+  edges: `
+void main() {
+  vec2 px = 1.0 / u_resolution;
+  float tl = luma(texture2D(u_tex, v_uv + px * vec2(-1.0, 1.0)).rgb);
+  float t = luma(texture2D(u_tex, v_uv + px * vec2(0.0, 1.0)).rgb);
+  float tr = luma(texture2D(u_tex, v_uv + px * vec2(1.0, 1.0)).rgb);
+  float l = luma(texture2D(u_tex, v_uv + px * vec2(-1.0, 0.0)).rgb);
+  float r = luma(texture2D(u_tex, v_uv + px * vec2(1.0, 0.0)).rgb);
+  float bl = luma(texture2D(u_tex, v_uv + px * vec2(-1.0, -1.0)).rgb);
+  float b = luma(texture2D(u_tex, v_uv + px * vec2(0.0, -1.0)).rgb);
+  float br = luma(texture2D(u_tex, v_uv + px * vec2(1.0, -1.0)).rgb);
+  float gx = -tl - 2.0 * l - bl + tr + 2.0 * r + br;
+  float gy = -tl - 2.0 * t - tr + bl + 2.0 * b + br;
+  float edge = smoothstep(0.1, 0.6, length(vec2(gx, gy)));
+  gl_FragColor = vec4(vec3(edge), 1.0);
+}`,
+  thermal: `
+vec3 palette(float t) {
+  vec3 c = mix(vec3(0.0, 0.0, 0.1), vec3(0.2, 0.0, 0.6), smoothstep(0.0, 0.25, t));
+  c = mix(c, vec3(0.8, 0.0, 0.5), smoothstep(0.2, 0.45, t));
+  c = mix(c, vec3(1.0, 0.3, 0.0), smoothstep(0.4, 0.65, t));
+  c = mix(c, vec3(1.0, 0.9, 0.0), smoothstep(0.6, 0.85, t));
+  return mix(c, vec3(1.0), smoothstep(0.85, 1.0, t));
+}
+void main() {
+  gl_FragColor = vec4(palette(luma(texture2D(u_tex, v_uv).rgb)), 1.0);
+}`,
+  crt: `
+void main() {
+  vec2 centered = v_uv * 2.0 - 1.0;
+  centered *= 1.0 + 0.08 * dot(centered.yx, centered.yx);
+  vec2 uv = centered * 0.5 + 0.5;
+  if (uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0) {
+    gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+    return;
+  }
+  float shift = 1.5 / u_resolution.x;
+  vec3 color = vec3(
+    texture2D(u_tex, uv + vec2(shift, 0.0)).r,
+    texture2D(u_tex, uv).g,
+    texture2D(u_tex, uv - vec2(shift, 0.0)).b
+  );
+  float scanline = 0.75 + 0.25 * sin(uv.y * u_resolution.y * 3.14159 + u_time * 4.0);
+  float vignette = smoothstep(1.4, 0.6, length(centered));
+  gl_FragColor = vec4(color * scanline * vignette * 1.15, 1.0);
+}`,
+};
+
+export interface ShaderRenderer {
+  canvas: HTMLCanvasElement;
+  // Draws one frame; false when the source has no frame yet or WebGL is unavailable
+  render: (video: HTMLVideoElement, cssFilter: string, effect: ShaderEffect) => boolean;
+  dispose: () => void;
+}
+
+function compile(gl: WebGLRenderingContext, type: number, source: string) {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+}
+
+export function createShaderRenderer(canvas: HTMLCanvasElement): ShaderRenderer | null {
+  const gl = canvas.getContext('webgl', { preserveDrawingBuffer: true });
+  if (!gl) return null;
+
+  // CSS filter chains are baked in on a 2D canvas before the frame is uploaded
+  const staging = document.createElement('canvas');
+  const stagingCtx = staging.getContext('2d');
+
+  const vertexShader = compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const programs = new Map<ShaderEffect, WebGLProgram>();
+  const programFor = (effect: ShaderEffect) => {
+    let program = programs.get(effect);
+    if (!program) {
+      program = gl.createProgram()!;
+      gl.attachShader(program, vertexShader);
+      gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_HEADER + FRAGMENT_SHADERS[effect]));
+      gl.linkProgram(program);
+      if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(`Shader link failed: ${gl.getProgramInfoLog(program)}`);
+      programs.set(effect, program);
+    }
+    return program;
+  };
+
+  const quad = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+
+  const startedAt = performance.now();
+
+  return {
+    canvas,
+    render: (video, cssFilter, effect) => {
+      if (!video.videoWidth || !video.videoHeight) return false;
+      const scale = Math.min(1, MAX_RENDER_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+      const width = Math.round(video.videoWidth * scale);
+      const height = Math.round(video.videoHeight * scale);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      let source: TexImageSource = video;
+      if (cssFilter !== 'none' && stagingCtx) {
+        staging.width = width;
+        staging.height = height;
+        stagingCtx.filter = cssFilter;
+        stagingCtx.drawImage(video, 0, 0, width, height);
+        source = staging;
+      }
+
+      const program = programFor(effect);
+      gl.useProgram(program);
+      gl.viewport(0, 0, width, height);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+      const position = gl.getAttribLocation(program, 'a_position');
+      gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+      gl.enableVertexAttribArray(position);
+      gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+      gl.uniform1i(gl.getUniformLocation(program, 'u_tex'), 0);
+      gl.uniform2f(gl.getUniformLocation(program, 'u_resolution'), width, height);
+      gl.uniform1f(gl.getUniformLocation(program, 'u_time'), (performance.now() - startedAt) / 1000);
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+      return true;
+    },
+    dispose: () => {
+      programs.forEach(program => gl.deleteProgram(program));
+      gl.deleteShader(vertexShader);
+      gl.deleteTexture(texture);
+      gl.deleteBuffer(quad);
+    },
+  };
+}
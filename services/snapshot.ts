@@ -0,0 +1,109 @@
+import { SnapshotMark, SnapshotRegion } from '../types';
+import { FrameSource, frameSize } from './frameSampler';
+
+// Snapshots bypass the frame sampler: full capture resolution (up to a cap), high JPEG
+// quality, with the operator's marks burned in so the model sees exactly what they point at.
+
+const MAX_DIMENSION = 2048;
+const JPEG_QUALITY = 0.92;
+const MIN_REGION = 0.02; // smaller drags are treated as clicks
+
+// Copies the current frame at full resolution; null when the video has no frame yet
+export function freezeFrame(source: FrameSource, filter: string): HTMLCanvasElement | null {
+  const { width, height } = frameSize(source);
+  if (!width || !height) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.filter = filter;
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+}
+
+// Normalizes a drag so width/height are positive; null if it's too small to mean anything
+export function regionFromDrag(from: { x: number; y: number }, to: { x: number; y: number }): SnapshotRegion | null {
+  const region = {
+    x: Math.max(0, Math.min(from.x, to.x)),
+    y: Math.max(0, Math.min(from.y, to.y)),
+    width: Math.min(1, Math.max(from.x, to.x)) - Math.max(0, Math.min(from.x, to.x)),
+    height: Math.min(1, Math.max(from.y, to.y)) - Math.max(0, Math.min(from.y, to.y)),
+  };
+  return region.width < MIN_REGION || region.height < MIN_REGION ? null : region;
+}
+
+export const isMarkTooSmall = (mark: SnapshotMark) =>
+  Math.abs(mark.to.x - mark.from.x) < MIN_REGION && Math.abs(mark.to.y - mark.from.y) < MIN_REGION;
+
+// Draws marks onto a context whose (0,0)-(width,height) shows `view` of the full frame
+export function drawMarks(ctx: CanvasRenderingContext2D, marks: SnapshotMark[], view: SnapshotRegion, width: number, height: number, color: string) {
+  const px = (point: { x: number; y: number }) => ({
+    x: ((point.x - view.x) / view.width) * width,
+    y: ((point.y - view.y) / view.height) * height,
+  });
+  const lineWidth = Math.max(2, Math.round(Math.max(width, height) / 300));
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+  ctx.shadowBlur = lineWidth;
+  marks.forEach(mark => {
+    const from = px(mark.from);
+    const to = px(mark.to);
+    if (mark.kind === 'box') {
+      ctx.strokeRect(from.x, from.y, to.x - from.x, to.y - from.y);
+      return;
+    }
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    // Arrowhead at the end of the drag
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const head = lineWidth * 5;
+    ctx.beginPath();
+    ctx.moveTo(to.x, to.y);
+    ctx.lineTo(to.x - head * Math.cos(angle - Math.PI / 6), to.y - head * Math.sin(angle - Math.PI / 6));
+    ctx.lineTo(to.x - head * Math.cos(angle + Math.PI / 6), to.y - head * Math.sin(angle + Math.PI / 6));
+    ctx.closePath();
+    ctx.fill();
+  });
+  ctx.restore();
+}
+
+// Text sent alongside the image. Without a question the turn stays open for the spoken one.
+export function snapshotPrompt(question: string, marked: boolean): string {
+  const intro = 'This is a high-resolution still the operator just took from the live video.';
+  const marks = marked ? ' The boxes and arrows drawn on it mark what they are asking about.' : '';
+  return question
+    ? `${intro}${marks} Question: ${question}`
+    : `${intro}${marks} They are about to ask about it out loud.`;
+}
+
+export const FULL_FRAME: SnapshotRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+// The image actually sent: cropped, marked up and capped at MAX_DIMENSION on the long edge
+export async function renderSnapshot(frame: HTMLCanvasElement, marks: SnapshotMark[], crop: SnapshotRegion | null, color: string): Promise<{ blob: Blob; width: number; height: number }> {
+  const view = crop ?? FULL_FRAME;
+  const sourceWidth = view.width * frame.width;
+  const sourceHeight = view.height * frame.height;
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(frame, view.x * frame.width, view.y * frame.height, sourceWidth, sourceHeight, 0, 0, width, height);
+  drawMarks(ctx, marks, view, width, height, color);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) throw new Error('Snapshot encoding failed');
+  return { blob, width, height };
+}
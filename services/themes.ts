@@ -0,0 +1,145 @@
+import { ThemeDefinition } from '../types';
+import { THEME_FONTS, THEMES } from '../constants';
+
+// Custom themes live next to the built-ins; the active one is pushed into CSS variables
+// that index.html's theme-* classes read.
+
+export const DEFAULT_THEME = THEMES[0];
+
+export const GRID_SIZE_RANGE = { min: 16, max: 96 };
+export const SCANLINE_OPACITY_RANGE = { min: 0, max: 0.4 };
+
+// WCAG AA for body text; the HUD is mostly small text
+export const MIN_CONTRAST_RATIO = 4.5;
+
+const EXPORT_FORMAT = 'rinu-themes';
+const EXPORT_VERSION = 1;
+
+export class ThemeImportError extends Error {
+  constructor(readonly code: string) {
+    super(code);
+  }
+}
+
+export function applyTheme(theme: ThemeDefinition) {
+  const style = document.documentElement.style;
+  style.setProperty('--theme-color', theme.color);
+  style.setProperty('--theme-color-glow', theme.glow);
+  style.setProperty('--theme-color-dim', theme.dim);
+  style.setProperty('--theme-background', theme.background);
+  style.setProperty('--theme-font', `'${theme.font}'`);
+  style.setProperty('--theme-grid-size', `${theme.gridSize}px`);
+  style.setProperty('--theme-scanline-opacity', String(theme.scanlineOpacity));
+}
+
+// --- Colors ---
+
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// #rgb, #rrggbb and rgb()/rgba(); null for anything else
+export function parseColor(value: string): Rgba | null {
+  const color = value.trim().toLowerCase();
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    return { r: parseInt(digits.slice(0, 2), 16), g: parseInt(digits.slice(2, 4), 16), b: parseInt(digits.slice(4, 6), 16), a: 1 };
+  }
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  if (rgb) {
+    const [r, g, b] = [rgb[1], rgb[2], rgb[3]].map(n => Math.min(255, Number(n)));
+    return { r, g, b, a: rgb[4] === undefined ? 1 : Math.min(1, Number(rgb[4])) };
+  }
+  return null;
+}
+
+export const toHex = ({ r, g, b }: Rgba) => `#${[r, g, b].map(n => n.toString(16).padStart(2, '0')).join('')}`;
+
+export const toRgba = ({ r, g, b, a }: Rgba) => `rgba(${r}, ${g}, ${b}, ${Math.round(a * 100) / 100})`;
+
+const channel = (value: number) => {
+  const c = value / 255;
+  return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const luminance = ({ r, g, b }: Rgba) => 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+
+export function contrastRatio(foreground: string, background: string): number | null {
+  const fg = parseColor(foreground);
+  const bg = parseColor(background);
+  if (!fg || !bg) return null;
+  const [light, dark] = [luminance(fg), luminance(bg)].sort((a, b) => b - a);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+// Combinations the UI actually renders: primary text on the background, and black
+// text on primary-filled buttons
+export function contrastWarnings(theme: ThemeDefinition): string[] {
+  const checks = [
+    { label: 'TEXT_ON_BACKGROUND', ratio: contrastRatio(theme.color, theme.background) },
+    { label: 'BUTTON_LABELS', ratio: contrastRatio('#000000', theme.color) },
+  ];
+  return checks
+    .filter(check => check.ratio !== null && check.ratio < MIN_CONTRAST_RATIO)
+    .map(check => `${check.label} ${check.ratio!.toFixed(1)}:1`);
+}
+
+// --- Validation, import / export ---
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isColor = (value: unknown): value is string => typeof value === 'string' && !!parseColor(value);
+
+// Fills gaps with the default theme's values; null when the colors are unusable
+export function normalizeTheme(input: unknown): ThemeDefinition | null {
+  if (!isObject(input)) return null;
+  const { color, glow, dim, background } = input;
+  if (!isColor(color) || !isColor(glow) || !isColor(dim) || !isColor(background)) return null;
+  const number = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+  return {
+    id: typeof input.id === 'string' && input.id ? input.id : `theme-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: typeof input.name === 'string' && input.name.trim() ? input.name.trim().slice(0, 40) : 'Untitled',
+    color,
+    glow,
+    dim,
+    background,
+    font: typeof input.font === 'string' && THEME_FONTS.includes(input.font) ? input.font : DEFAULT_THEME.font,
+    gridSize: number(input.gridSize, GRID_SIZE_RANGE.min, GRID_SIZE_RANGE.max, DEFAULT_THEME.gridSize),
+    scanlineOpacity: number(input.scanlineOpacity, SCANLINE_OPACITY_RANGE.min, SCANLINE_OPACITY_RANGE.max, DEFAULT_THEME.scanlineOpacity),
+  };
+}
+
+export function exportThemes(themes: ThemeDefinition[]) {
+  const payload = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    themes: themes.map(({ builtIn, ...theme }) => theme),
+  };
+  const url = URL.createObjectURL(new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = themes.length === 1 ? `rinu-theme-${themes[0].id}.json` : 'rinu-themes.json';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Accepts an export file or a bare theme object / array of them
+export function parseThemeImport(text: string): ThemeDefinition[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ThemeImportError('THEME_FILE_MALFORMED');
+  }
+  if (isObject(parsed) && parsed.format === EXPORT_FORMAT && typeof parsed.version === 'number' && parsed.version > EXPORT_VERSION) {
+    throw new ThemeImportError('THEME_FILE_UNSUPPORTED');
+  }
+  const candidates: unknown[] = Array.isArray(parsed) ? parsed : isObject(parsed) && Array.isArray(parsed.themes) ? parsed.themes : [parsed];
+  const themes = candidates.map(normalizeTheme);
+  if (!themes.length || themes.some(t => !t)) throw new ThemeImportError('THEME_FILE_INVALID');
+  return themes as ThemeDefinition[];
+}
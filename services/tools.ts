@@ -0,0 +1,44 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Schema } from '@google/genai';
+
+// A tool the model can call: its declaration (name, schema) plus the local handler.
+// Handlers return a plain object that goes back to the model as the function response;
+// a thrown error is reported back to the model instead.
+export interface ToolDefinition<Args = Record<string, unknown>> {
+  name: string;
+  description: string;
+  parameters: Schema;
+  handler: (args: Args) => Promise<Record<string, unknown>> | Record<string, unknown>;
+}
+
+export interface ToolRegistry {
+  declarations: FunctionDeclaration[];
+  execute: (call: FunctionCall) => Promise<FunctionResponse>;
+}
+
+// Typed handler in, registry-shaped tool out: the declared schema is what vouches for the
+// args the model sends, so they are narrowed once here instead of cast per tool
+export function defineTool<Args extends Record<string, unknown>>({ handler, ...declaration }: ToolDefinition<Args>): ToolDefinition {
+  return { ...declaration, handler: args => handler(args as Args) };
+}
+
+export function createToolRegistry(tools: ToolDefinition[]): ToolRegistry {
+  const byName = new Map(tools.map(tool => [tool.name, tool]));
+
+  return {
+    declarations: tools.map(({ name, description, parameters }) => ({ name, description, parameters })),
+    execute: async (call) => {
+      const name = call.name ?? '';
+      const tool = byName.get(name);
+      if (!tool) {
+        return { id: call.id, name, response: { error: `Unknown tool "${name}"` } };
+      }
+      try {
+        const output = await tool.handler(call.args ?? {});
+        return { id: call.id, name, response: { output } };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return { id: call.id, name, response: { error: message } };
+      }
+    },
+  };
+}
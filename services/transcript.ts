@@ -0,0 +1,45 @@
+import { TranscriptSpeaker, TranscriptTurn } from '../types';
+
+let turnCounter = 0;
+
+const createTurnId = () => `turn-${Date.now().toString(36)}-${(turnCounter++).toString(36)}`;
+
+// Append a transcription chunk to the open turn of the same speaker, or start a new one.
+// A chunk from the other speaker closes whatever turn was still open.
+export function appendTranscriptChunk(
+  turns: TranscriptTurn[],
+  speaker: TranscriptSpeaker,
+  text: string,
+  finished = false,
+): TranscriptTurn[] {
+  if (!text && !finished) return turns;
+
+  const last = turns[turns.length - 1];
+  if (last && last.speaker === speaker && !last.isFinal) {
+    return [
+      ...turns.slice(0, -1),
+      { ...last, text: last.text + text, isFinal: finished },
+    ];
+  }
+
+  const closed = finalizeTurns(turns);
+  if (!text) return closed;
+  return [
+    ...closed,
+    { id: createTurnId(), speaker, text, timestamp: Date.now(), isFinal: finished },
+  ];
+}
+
+// Local echo of a typed operator turn (or a snapshot question); always final
+export function appendTypedTurn(turns: TranscriptTurn[], text: string, source: 'text' | 'snapshot' = 'text'): TranscriptTurn[] {
+  return [
+    ...finalizeTurns(turns),
+    { id: createTurnId(), speaker: 'operator', text, timestamp: Date.now(), isFinal: true, source },
+  ];
+}
+
+// Mark open turns as final (optionally only those of one speaker)
+export function finalizeTurns(turns: TranscriptTurn[], speaker?: TranscriptSpeaker): TranscriptTurn[] {
+  if (!turns.some(t => !t.isFinal && (!speaker || t.speaker === speaker))) return turns;
+  return turns.map(t => (!t.isFinal && (!speaker || t.speaker === speaker) ? { ...t, text: t.text.trim(), isFinal: true } : t));
+}
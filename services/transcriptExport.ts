@@ -0,0 +1,70 @@
+import { SessionRecord, TranscriptTurn } from '../types';
+
+export type ExportFormat = 'json' | 'md' | 'srt';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  md: 'text/markdown',
+  srt: 'application/x-subrip',
+};
+
+const speakerLabel = (turn: TranscriptTurn) => (turn.speaker === 'rinu' ? 'RINU' : 'OPERATOR');
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+// SRT timestamps are HH:MM:SS,mmm relative to the start of the recording
+function formatSrtTime(ms: number) {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3600000);
+  const minutes = Math.floor((clamped % 3600000) / 60000);
+  const seconds = Math.floor((clamped % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(clamped % 1000, 3)}`;
+}
+
+// Rough reading time for a cue when the next turn doesn't bound it
+const estimateDurationMs = (text: string) => Math.max(2000, text.split(/\s+/).length * 400);
+
+export function toJson(record: SessionRecord): string {
+  return JSON.stringify(record, null, 2);
+}
+
+export function toMarkdown(record: SessionRecord): string {
+  const lines = [
+    `# Rinu Session ${new Date(record.startedAt).toISOString()}`,
+    '',
+    `- Started: ${new Date(record.startedAt).toLocaleString()}`,
+    `- Ended: ${record.endedAt ? new Date(record.endedAt).toLocaleString() : 'n/a'}`,
+    `- Video quality: ${record.videoQuality}`,
+    `- Filter: ${record.filter}`,
+    `- Screen share intervals: ${record.screenShareIntervals.length}`,
+    '',
+    '## Transcript',
+    '',
+  ];
+  for (const turn of record.turns) {
+    lines.push(`**[${new Date(turn.timestamp).toLocaleTimeString()}] ${speakerLabel(turn)}:** ${turn.text.trim()}`, '');
+  }
+  return lines.join('\n');
+}
+
+export function toSrt(record: SessionRecord): string {
+  return record.turns
+    .map((turn, i) => {
+      const start = turn.timestamp - record.startedAt;
+      const next = record.turns[i + 1];
+      const naturalEnd = start + estimateDurationMs(turn.text);
+      const end = next ? Math.min(naturalEnd, next.timestamp - record.startedAt) : naturalEnd;
+      return `${i + 1}\n${formatSrtTime(start)} --> ${formatSrtTime(Math.max(end, start + 500))}\n${speakerLabel(turn)}: ${turn.text.trim()}\n`;
+    })
+    .join('\n');
+}
+
+export function exportSession(record: SessionRecord, format: ExportFormat) {
+  const content = format === 'json' ? toJson(record) : format === 'md' ? toMarkdown(record) : toSrt(record);
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `rinu-session-${new Date(record.startedAt).toISOString().replace(/[:.]/g, '-')}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
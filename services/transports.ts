@@ -0,0 +1,22 @@
+import { LiveTransport } from './liveTransport';
+import { createGeminiTransport } from './geminiTransport';
+import { createMockTransport } from './mockTransport';
+import { activeAccessToken } from './profiles';
+
+const geminiOptions = () => ({
+  tokenUrl: process.env.LIVE_TOKEN_URL,
+  getAccessToken: activeAccessToken,
+});
+
+// Pick the live backend from env config (LIVE_TRANSPORT=gemini|mock)
+export function createLiveTransport(): LiveTransport {
+  switch (process.env.LIVE_TRANSPORT) {
+    case 'mock':
+      return createMockTransport({ url: process.env.MOCK_LIVE_URL });
+    case 'gemini':
+      return createGeminiTransport(geminiOptions());
+    default:
+      console.warn(`Unknown LIVE_TRANSPORT "${process.env.LIVE_TRANSPORT}", falling back to gemini`);
+      return createGeminiTransport(geminiOptions());
+  }
+}
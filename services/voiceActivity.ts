@@ -0,0 +1,78 @@
+import { PcmBlob } from './audioCapture';
+
+// Client-side energy VAD for the VAD-gated mic mode. Silence never leaves the device:
+// chunks pass through only while speech is detected, plus a short pre-roll so the
+// first syllable isn't clipped and a hangover so pauses between words don't cut out.
+
+export interface VoiceGateOptions {
+  threshold?: number; // RMS on [-1, 1] samples
+  hangoverMs?: number;
+  preRollChunks?: number;
+  sampleRate: number;
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+}
+
+export interface VoiceGate {
+  // Chunks to send for this input chunk (possibly several when pre-roll flushes, possibly none)
+  process: (blob: PcmBlob, samples: Int16Array) => PcmBlob[];
+  reset: () => void;
+}
+
+export const DEFAULT_VAD_THRESHOLD = 0.015;
+const DEFAULT_HANGOVER_MS = 600;
+const DEFAULT_PRE_ROLL_CHUNKS = 3;
+
+const rms = (samples: Int16Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i] / 0x8000;
+    sum += s * s;
+  }
+  return Math.sqrt(sum / Math.max(1, samples.length));
+};
+
+export function createVoiceGate({
+  threshold = DEFAULT_VAD_THRESHOLD,
+  hangoverMs = DEFAULT_HANGOVER_MS,
+  preRollChunks = DEFAULT_PRE_ROLL_CHUNKS,
+  sampleRate,
+  onSpeechStart,
+  onSpeechEnd,
+}: VoiceGateOptions): VoiceGate {
+  let open = false;
+  let quietMs = 0;
+  let preRoll: PcmBlob[] = [];
+
+  return {
+    process: (blob, samples) => {
+      const loud = rms(samples) >= threshold;
+      if (!open) {
+        if (!loud) {
+          preRoll = [...preRoll, blob].slice(-preRollChunks);
+          return [];
+        }
+        open = true;
+        quietMs = 0;
+        onSpeechStart?.();
+        const flushed = [...preRoll, blob];
+        preRoll = [];
+        return flushed;
+      }
+
+      quietMs = loud ? 0 : quietMs + (samples.length / sampleRate) * 1000;
+      if (quietMs >= hangoverMs) {
+        open = false;
+        onSpeechEnd?.();
+        return [];
+      }
+      return [blob];
+    },
+    reset: () => {
+      if (open) onSpeechEnd?.();
+      open = false;
+      quietMs = 0;
+      preRoll = [];
+    },
+  };
+}
@@ -8,9 +8,195 @@ export enum ConnectionState {
   DISCONNECTED = 'disconnected',
   CONNECTING = 'connecting',
   CONNECTED = 'connected',
+  RECONNECTING = 'reconnecting',
   ERROR = 'error'
 }
 
+export type VisualizerStyle = 'bars' | 'waveform' | 'ring';
+
 export interface AudioVisualizerProps {
   isPlaying: boolean;
-}
\ No newline at end of file
+  analyser?: AnalyserNode | null;
+  variant?: VisualizerStyle;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+export type TranscriptSpeaker = 'operator' | 'rinu';
+
+export interface TranscriptTurn {
+  id: string;
+  speaker: TranscriptSpeaker;
+  text: string;
+  timestamp: number;
+  isFinal: boolean;
+  source?: 'voice' | 'text' | 'snapshot';
+}
+
+export interface ScreenShareInterval {
+  start: number;
+  end?: number;
+}
+
+export interface SessionRecord {
+  id: string;
+  operator?: string; // phone of the profile that made the call; missing on pre-profile records
+  startedAt: number;
+  endedAt?: number;
+  videoQuality: VideoQuality;
+  filter: string;
+  screenShareIntervals: ScreenShareInterval[];
+  turns: TranscriptTurn[];
+}
+
+export interface CallRecording {
+  id: string;
+  operator?: string;
+  sessionId?: string; // links back to the SessionRecord (and its transcript)
+  startedAt: number;
+  durationMs: number;
+  size: number;
+  mimeType: string;
+  blob: Blob;
+}
+
+export interface MissionNote {
+  id: string;
+  text: string;
+  createdAt: number;
+}
+
+export interface ActiveTimer {
+  id: string;
+  label: string;
+  endsAt: number;
+}
+
+export type ToolInvocationStatus = 'running' | 'ok' | 'error' | 'cancelled';
+
+export interface ToolInvocation {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolInvocationStatus;
+  result?: string;
+  timestamp: number;
+}
+
+export interface PersonaPreset {
+  id: string;
+  name: string;
+  voiceName: string;
+  languageCode: string; // '' lets the model pick
+  instruction: string; // supports ${userName}, ${date}, ${time}, ${language}
+  builtIn?: boolean;
+}
+
+// always: stream continuously, ptt: only while held (manual activity signals),
+// vad: only speech segments detected on-device
+export type MicMode = 'always' | 'ptt' | 'vad';
+
+// Device ids per kind; '' follows the system default
+export interface MediaDeviceSelection {
+  cameraId: string;
+  micId: string;
+  speakerId: string;
+}
+
+export type MediaDeviceKindName = 'camera' | 'mic' | 'speaker';
+
+export interface FrameUploadSettings {
+  maxDimension: number; // long edge of uploaded frames, independent of capture quality
+  frameRate: number;
+  changeThreshold: number; // 0 disables change detection
+  bandwidthKbps: number; // 0 = uncapped
+}
+
+// GPU passes rendered through WebGL (services/shaderFilters.ts)
+export type ShaderEffect = 'pixelate' | 'edges' | 'thermal' | 'crt';
+
+// Slider values of a CSS filter chain; the defaults leave the image untouched
+export interface FilterAdjustments {
+  brightness: number;
+  contrast: number;
+  saturate: number;
+  hueRotate: number; // degrees
+  grayscale: number;
+  sepia: number;
+  invert: number;
+  blur: number; // px
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  adjustments: FilterAdjustments;
+  shader: ShaderEffect | null;
+}
+
+// What is applied to the camera: a CSS chain plus an optional shader pass on top
+export interface VideoFilter {
+  id: string; // preset id for saved presets; names can repeat
+  name: string;
+  css: string;
+  shader: ShaderEffect | null;
+}
+
+// screen: the shared screen alone; pip: screen with a camera inset; alternate: screen and
+// camera sent as separate frames in turn
+export type ScreenShareMode = 'screen' | 'pip' | 'alternate';
+export type InsetCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface ScreenShareLayout {
+  mode: ScreenShareMode;
+  corner: InsetCorner;
+  size: number; // inset width as a fraction of the frame width
+  position: { x: number; y: number } | null; // dragged top-left (fractions of the frame); null = snapped to corner
+}
+
+export interface ThemeDefinition {
+  id: string;
+  name: string;
+  color: string; // primary: text, borders, accents
+  glow: string;
+  dim: string;
+  background: string;
+  font: string;
+  gridSize: number; // px between grid lines
+  scanlineOpacity: number; // 0 = invisible
+  builtIn?: boolean;
+}
+
+export type UiLanguage = 'en' | 'bn' | 'hi';
+
+// An operator known on this device; their settings live in their section of the settings store
+export interface OperatorProfile {
+  phone: string;
+  name: string;
+  lastUsedAt: number;
+}
+
+// Marks drawn on a frozen frame; coordinates are fractions of the full frame
+export interface SnapshotMark {
+  kind: 'box' | 'arrow';
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+}
+
+export interface SnapshotRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// An annotated frame sent as its own turn, kept for the rest of the session
+export interface SessionSnapshot {
+  id: string;
+  takenAt: number;
+  question: string; // empty when asked by voice
+  url: string; // object URL of the JPEG that was sent
+  width: number;
+  height: number;
+}
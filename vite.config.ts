@@ -11,8 +11,12 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // GEMINI_API_KEY stays server-side (auth server token broker); never define it here
+        'process.env.LIVE_TRANSPORT': JSON.stringify(env.LIVE_TRANSPORT || 'gemini'),
+        'process.env.MOCK_LIVE_URL': JSON.stringify(env.MOCK_LIVE_URL || 'ws://localhost:8787'),
+        'process.env.AUTH_PROVIDER': JSON.stringify(env.AUTH_PROVIDER || 'local'),
+        'process.env.AUTH_URL': JSON.stringify(env.AUTH_URL || 'http://localhost:8788'),
+        'process.env.LIVE_TOKEN_URL': JSON.stringify(env.LIVE_TOKEN_URL || `${env.AUTH_URL || 'http://localhost:8788'}/live/token`)
       },
       resolve: {
         alias: {